@@ -0,0 +1,98 @@
+export interface SessionCacheOptions {
+    /**
+     * Maximum number of sessions kept in memory; the least recently used is evicted first
+     * @default 1000
+     */
+    maxEntries?: number;
+
+    /**
+     * Seconds a session is served from memory before it is read from Redis again
+     * Entries never outlive the session's own TTL in Redis
+     * @default 5
+     */
+    maxAge?: number;
+
+    /**
+     * Redis pub/sub channel used to broadcast invalidations between instances
+     * @default '<prefix>:invalidate'
+     */
+    channel?: string;
+}
+
+export interface CachedValue<Value> {
+    value: Value;
+    /**
+     * Remaining milliseconds of the key in Redis, -1 when it does not expire
+     */
+    pttl: number;
+}
+
+export interface SessionCache<Value> {
+    get(key: string): CachedValue<Value> | undefined;
+    set(key: string, value: Value, pttl: number): void;
+    /**
+     * Record that the key's TTL in Redis was reset to the given seconds
+     */
+    expire(key: string, ttl: number): void;
+    delete(key: string): void;
+}
+
+interface CacheEntry<Value> {
+    value: Value;
+    staleAt: number;
+    expiresAt?: number;
+}
+
+/**
+ * LRU cache whose entries expire at the earlier of maxAge and the key's TTL in Redis.
+ */
+export function createSessionCache<Value>(options: SessionCacheOptions): SessionCache<Value> {
+    const maxEntries = options.maxEntries ?? 1000;
+    const maxAge = (options.maxAge ?? 5) * 1000;
+    // Map 按插入顺序迭代，重新插入即可把条目移到最近使用的位置
+    const entries = new Map<string, CacheEntry<Value>>();
+
+    return {
+        get(key) {
+            const entry = entries.get(key);
+            if (!entry) {
+                return undefined;
+            }
+            const now = Date.now();
+            if (now >= entry.staleAt || (entry.expiresAt !== undefined && now >= entry.expiresAt)) {
+                entries.delete(key);
+                return undefined;
+            }
+            entries.delete(key);
+            entries.set(key, entry);
+            return {
+                value: entry.value,
+                pttl: entry.expiresAt === undefined ? -1 : entry.expiresAt - now
+            };
+        },
+
+        set(key, value, pttl) {
+            const now = Date.now();
+            entries.delete(key);
+            entries.set(key, {
+                value,
+                staleAt: now + maxAge,
+                expiresAt: pttl < 0 ? undefined : now + pttl
+            });
+            if (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        },
+
+        expire(key, ttl) {
+            const entry = entries.get(key);
+            if (entry) {
+                entry.expiresAt = Date.now() + ttl * 1000;
+            }
+        },
+
+        delete(key) {
+            entries.delete(key);
+        }
+    };
+}
@@ -0,0 +1,562 @@
+// 为常用Redis客户端提供类型支持
+export interface IoRedisLike {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<string>;
+    setex(key: string, seconds: number, value: string): Promise<string>;
+    del(...keys: string[]): Promise<number>;
+    expire(key: string, seconds: number): Promise<number>;
+    ttl(key: string): Promise<number>;
+    pttl(key: string): Promise<number>;
+    mget(...keys: string[]): Promise<(string | null)[]>;
+    scan(cursor: number | string, ...args: any[]): Promise<[string, string[]]>;
+    sadd(key: string, ...members: string[]): Promise<number>;
+    srem(key: string, ...members: string[]): Promise<number>;
+    smembers(key: string): Promise<string[]>;
+    hset(key: string, fields: Record<string, string>): Promise<number>;
+    hgetall(key: string): Promise<Record<string, string>>;
+    hdel(key: string, ...fields: string[]): Promise<number>;
+    eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+    config(subcommand: 'GET' | 'SET', ...args: string[]): Promise<unknown>;
+    publish(channel: string, message: string): Promise<number>;
+    duplicate(): IoRedisSubscriberLike;
+}
+
+// ioredis 复制出的订阅连接
+export interface IoRedisSubscriberLike {
+    subscribe(...channels: string[]): Promise<unknown>;
+    unsubscribe(...channels: string[]): Promise<unknown>;
+    on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+    quit(): Promise<unknown>;
+}
+
+export interface NodeRedisLike {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<string>;
+    setEx(key: string, seconds: number, value: string): Promise<string>;
+    del(keyOrKeys: string | string[]): Promise<number>;
+    expire(key: string, seconds: number): Promise<boolean>;
+    ttl(key: string): Promise<number>;
+    pTTL(key: string): Promise<number>;
+    mGet(keys: string[]): Promise<(string | null)[]>;
+    scanIterator(options: { MATCH?: string; COUNT?: number }): AsyncIterable<string>;
+    sAdd(key: string, members: string | string[]): Promise<number>;
+    sRem(key: string, members: string | string[]): Promise<number>;
+    sMembers(key: string): Promise<string[]>;
+    hSet(key: string, fields: Record<string, string>): Promise<number>;
+    hGetAll(key: string): Promise<Record<string, string>>;
+    hDel(key: string, fields: string | string[]): Promise<number>;
+    eval(script: string, options: { keys?: string[]; arguments?: string[] }): Promise<unknown>;
+    configGet(parameter: string): Promise<Record<string, string>>;
+    configSet(parameter: string, value: string): Promise<string>;
+    publish(channel: string, message: string): Promise<number>;
+    duplicate(): NodeRedisSubscriberLike;
+}
+
+// node-redis 复制出的订阅连接，需要先 connect
+export interface NodeRedisSubscriberLike {
+    connect(): Promise<unknown>;
+    subscribe(channel: string, listener: (message: string, channel: string) => void): Promise<unknown>;
+    unsubscribe(channel?: string): Promise<unknown>;
+    quit(): Promise<unknown>;
+}
+
+
+// ioredis 的 Cluster 实例，SCAN 需要在每个主节点上分别执行
+export interface IoRedisClusterLike extends IoRedisLike {
+    readonly isCluster: true;
+    nodes(role?: 'all' | 'master' | 'slave'): IoRedisLike[];
+}
+
+// node-redis 的 createCluster 实例，没有 scanIterator，需要通过 nodeClient 获取各主节点的连接
+export interface NodeRedisClusterLike extends Omit<NodeRedisLike, 'scanIterator'> {
+    readonly masters: unknown[];
+    nodeClient(node: any): NodeRedisLike | Promise<NodeRedisLike>;
+}
+
+export interface RedisLikeClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<string | 'OK' | null>;
+    del(key: string | string[]): Promise<number>;
+    expire(key: string, seconds: number): Promise<number | boolean>;
+    mGet?(keys: string[]): Promise<(string | null)[]>;
+    mget?(keys: string[]): Promise<(string | null)[]>;
+    scan?(cursor: number | string, ...args: any[]): Promise<[string, string[]]>;
+    scanIterator?(options: { MATCH?: string; COUNT?: number }): AsyncIterable<string>;
+}
+
+export interface ScanIteratorOptions {
+    /**
+     * SCAN cursor to start from, as reported to onCursor by an earlier scan
+     * @default '0'
+     */
+    cursor?: string;
+    /**
+     * Called once the keys of each SCAN reply have been yielded, with the cursor that continues after them
+     * The cursor is '0' once the scan is complete
+     */
+    onCursor?: (cursor: string) => void | Promise<void>;
+}
+
+export interface NormalizedRedisClient {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<boolean>;
+    setex(key: string, seconds: number, value: string): Promise<boolean>;
+    del(keyOrKeys: string | string[]): Promise<number>;
+    /**
+     * Delete keys with UNLINK, reclaiming their memory in a background thread
+     * Callers fall back to del when it is missing
+     */
+    unlink?(keys: string[]): Promise<number>;
+    expire(key: string, seconds: number): Promise<boolean>;
+    ttl(key: string): Promise<number>;
+    pttl(key: string): Promise<number>;
+    mget(keys: string[]): Promise<(string | null)[]>;
+    scanIterator(match: string, count: number, options?: ScanIteratorOptions): AsyncIterable<string>;
+    sadd(key: string, members: string[]): Promise<number>;
+    srem(key: string, members: string[]): Promise<number>;
+    smembers(key: string): Promise<string[]>;
+    hset(key: string, fields: Record<string, string>): Promise<number>;
+    hgetall(key: string): Promise<Record<string, string>>;
+    hdel(key: string, fields: string[]): Promise<number>;
+    eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+    configGet(parameter: string): Promise<string | null>;
+    configSet(parameter: string, value: string): Promise<boolean>;
+    publish(channel: string, message: string): Promise<number>;
+    /**
+     * Subscribe to a channel on a dedicated connection duplicated from the client
+     */
+    subscribe(channel: string, listener: (message: string) => void): Promise<RedisSubscription>;
+    /**
+     * Logical database the client is connected to
+     */
+    readonly database: number;
+    /**
+     * True for Redis Cluster clients: mget and del run one command per key
+     * and scanIterator visits every master node
+     */
+    readonly cluster?: boolean;
+}
+
+export interface RedisSubscription {
+    /**
+     * Unsubscribe and close the dedicated connection
+     */
+    unsubscribe(): Promise<void>;
+}
+
+function isIoRedisClient(client: any): boolean {
+    return typeof client.scan === 'function' && 
+           typeof client.mget === 'function' &&
+           !client.scanIterator;
+}
+
+function isNodeRedisClient(client: any): boolean {
+    return typeof client.scanIterator === 'function' && 
+           typeof client.mGet === 'function';
+}
+
+function isIoRedisCluster(client: any): boolean {
+    return client.isCluster === true && typeof client.nodes === 'function';
+}
+
+function isNodeRedisCluster(client: any): boolean {
+    return Array.isArray(client.masters) && typeof client.nodeClient === 'function';
+}
+
+// 集群要求多 key 命令的所有 key 位于同一个槽，这里逐个 key 执行；SCAN 只作用于单个节点，需要遍历所有主节点
+function withClusterSupport(
+    adapter: NormalizedRedisClient,
+    getMasters: () => Promise<NormalizedRedisClient[]>
+): NormalizedRedisClient {
+    return {
+        ...adapter,
+        mget: async (keys: string[]) => {
+            return Promise.all(keys.map((key) => adapter.get(key)));
+        },
+        del: async (keyOrKeys: string | string[]) => {
+            const keys = Array.isArray(keyOrKeys) ? keyOrKeys : [keyOrKeys];
+            const results = await Promise.all(keys.map((key) => adapter.del(key)));
+            return results.reduce((deleted, result) => deleted + result, 0);
+        },
+        unlink: async (keys: string[]) => {
+            const results = await Promise.all(keys.map((key) => adapter.unlink!([key])));
+            return results.reduce((deleted, result) => deleted + result, 0);
+        },
+        // 集群的游标由主节点序号和该节点上的 SCAN 游标组成，节点增减或故障切换后不能再用于恢复
+        scanIterator: async function* (match: string, count: number, options: ScanIteratorOptions = {}): AsyncIterable<string> {
+            const masters = await getMasters();
+            const separator = (options.cursor ?? '').indexOf(':');
+            const start = separator > 0 ? Number(options.cursor!.slice(0, separator)) : 0;
+            for (let index = start; index < masters.length; index++) {
+                yield* masters[index].scanIterator(match, count, {
+                    cursor: index === start && separator > 0 ? options.cursor!.slice(separator + 1) : '0',
+                    onCursor: (cursor) => options.onCursor?.(
+                        cursor !== '0' ? `${index}:${cursor}` : index + 1 < masters.length ? `${index + 1}:0` : '0'
+                    )
+                });
+            }
+        },
+        // 集群只有 0 号数据库
+        database: 0,
+        cluster: true
+    };
+}
+
+export function createNormalizedRedisClient(client: RedisLikeClient): NormalizedRedisClient {
+    const adapter = createClientAdapter(client);
+    if (isIoRedisCluster(client)) {
+        const cluster = client as unknown as IoRedisClusterLike;
+        return withClusterSupport(adapter, async () => {
+            return cluster.nodes('master').map((node) => createClientAdapter(node as unknown as RedisLikeClient));
+        });
+    }
+    if (isNodeRedisCluster(client)) {
+        const cluster = client as unknown as NodeRedisClusterLike;
+        return withClusterSupport(adapter, async () => {
+            const nodes = await Promise.all(cluster.masters.map((master) => cluster.nodeClient(master)));
+            return nodes.map((node) => createClientAdapter(node as unknown as RedisLikeClient));
+        });
+    }
+    return adapter;
+}
+
+function createClientAdapter(client: RedisLikeClient): NormalizedRedisClient {
+    if (isIoRedisClient(client)) {
+        return {
+            get: async (key: string) => {
+                return client.get(key);
+            },
+            set: async (key: string, value: string) => {
+                const result = await client.set(key, value);
+                return result === 'OK' || result === '1';
+            },
+            setex: async (key: string, seconds: number, value: string) => {
+                if (typeof (client as any).setex === 'function') {
+                    const result = await (client as any).setex(key, seconds, value);
+                    return result === 'OK' || result === '1';
+                }
+                const setResult = await client.set(key, value);
+                if (setResult === 'OK' || setResult === '1') {
+                    const expireResult = await client.expire(key, seconds);
+                    return expireResult === 1 || expireResult === true;
+                }
+                return false;
+            },
+            del: async (keyOrKeys: string | string[]) => {
+                const keys = Array.isArray(keyOrKeys) ? keyOrKeys : [keyOrKeys];
+                if (typeof (client as any).del === 'function') {
+                    const result = await (client as any).del(...keys);
+                    return result;
+                }
+                // Fallback for clients without proper del
+                let deleted = 0;
+                for (const key of keys) {
+                    const result = await client.del(key);
+                    deleted += result;
+                }
+                return deleted;
+            },
+            unlink: async (keys: string[]) => {
+                if (typeof (client as any).unlink === 'function') {
+                    return (client as any).unlink(...keys);
+                }
+                return (client as any).del(...keys);
+            },
+            expire: async (key: string, seconds: number) => {
+                const result = await client.expire(key, seconds);
+                return result === 1 || result === true;
+            },
+            ttl: async (key: string) => {
+                if (typeof (client as any).ttl === 'function') {
+                    return (client as any).ttl(key);
+                }
+                return -2;
+            },
+            pttl: async (key: string) => {
+                if (typeof (client as any).pttl === 'function') {
+                    return (client as any).pttl(key);
+                }
+                if (typeof (client as any).ttl === 'function') {
+                    const ttl = await (client as any).ttl(key);
+                    return ttl > 0 ? ttl * 1000 : ttl;
+                }
+                return -2;
+            },
+            mget: async (keys: string[]) => {
+                if (typeof (client as any).mget === 'function') {
+                    return (client as any).mget(...keys);
+                }
+                const results: (string | null)[] = [];
+                for (const key of keys) {
+                    results.push(await client.get(key));
+                }
+                return results;
+            },
+            scanIterator: async function* (match: string, count: number, options: ScanIteratorOptions = {}): AsyncIterable<string> {
+                if (typeof (client as any).scan === 'function') {
+                    let cursor = options.cursor ?? '0';
+                    do {
+                        const [nextCursor, keys] = await (client as any).scan(cursor, 'MATCH', match, 'COUNT', count);
+                        for (const key of keys) {
+                            yield key;
+                        }
+                        cursor = String(nextCursor);
+                        await options.onCursor?.(cursor);
+                    } while (cursor !== '0');
+                } else {
+                    return;
+                }
+            },
+            sadd: async (key: string, members: string[]) => {
+                if (members.length === 0) {
+                    return 0;
+                }
+                return (client as any).sadd(key, ...members);
+            },
+            srem: async (key: string, members: string[]) => {
+                if (members.length === 0) {
+                    return 0;
+                }
+                return (client as any).srem(key, ...members);
+            },
+            smembers: async (key: string) => {
+                return (client as any).smembers(key);
+            },
+            hset: async (key: string, fields: Record<string, string>) => {
+                if (Object.keys(fields).length === 0) {
+                    return 0;
+                }
+                return (client as any).hset(key, fields);
+            },
+            hgetall: async (key: string) => {
+                return (client as any).hgetall(key);
+            },
+            hdel: async (key: string, fields: string[]) => {
+                if (fields.length === 0) {
+                    return 0;
+                }
+                return (client as any).hdel(key, ...fields);
+            },
+            eval: async (script: string, keys: string[], args: string[]) => {
+                return (client as any).eval(script, keys.length, ...keys, ...args);
+            },
+            configGet: async (parameter: string) => {
+                // 返回 [参数名, 值]
+                const result = await (client as any).config('GET', parameter) as string[];
+                return result[1] ?? null;
+            },
+            configSet: async (parameter: string, value: string) => {
+                return (await (client as any).config('SET', parameter, value)) === 'OK';
+            },
+            publish: async (channel: string, message: string) => {
+                return (client as any).publish(channel, message);
+            },
+            subscribe: async (channel: string, listener: (message: string) => void) => {
+                // 订阅模式下的连接不能执行普通命令，需要单独的连接
+                const subscriber: IoRedisSubscriberLike = (client as any).duplicate();
+                subscriber.on('message', (received, message) => {
+                    if (received === channel) {
+                        listener(message);
+                    }
+                });
+                await subscriber.subscribe(channel);
+                return {
+                    unsubscribe: async () => {
+                        await subscriber.unsubscribe(channel);
+                        await subscriber.quit();
+                    }
+                };
+            },
+            database: Number((client as any).options?.db ?? 0)
+        };
+    } else if (isNodeRedisClient(client) || isNodeRedisCluster(client)) {
+        return {
+            get: async (key: string) => {
+                return client.get(key);
+            },
+            set: async (key: string, value: string) => {
+                const result = await client.set(key, value);
+                return result === 'OK';
+            },
+            setex: async (key: string, seconds: number, value: string) => {
+                if (typeof (client as any).setEx === 'function') {
+                    const result = await (client as any).setEx(key, seconds, value);
+                    return result === 'OK';
+                }
+                const setResult = await client.set(key, value);
+                if (setResult === 'OK') {
+                    return client.expire(key, seconds) as Promise<boolean>;
+                }
+                return false;
+            },
+            del: async (keyOrKeys: string | string[]) => {
+                return client.del(keyOrKeys);
+            },
+            unlink: async (keys: string[]) => {
+                if (typeof (client as any).unlink === 'function') {
+                    return (client as any).unlink(keys);
+                }
+                return client.del(keys);
+            },
+            expire: async (key: string, seconds: number) => {
+                const result = await client.expire(key, seconds);
+                return result === true || result === 1;
+            },
+            ttl: async (key: string) => {
+                if (typeof (client as any).ttl === 'function') {
+                    return (client as any).ttl(key);
+                }
+                return -2;
+            },
+            pttl: async (key: string) => {
+                if (typeof (client as any).pTTL === 'function') {
+                    return (client as any).pTTL(key);
+                }
+                if (typeof (client as any).ttl === 'function') {
+                    const ttl = await (client as any).ttl(key);
+                    return ttl > 0 ? ttl * 1000 : ttl;
+                }
+                return -2;
+            },
+            mget: async (keys: string[]) => {
+                if (typeof (client as any).mGet === 'function') {
+                    return (client as any).mGet(keys);
+                }
+                const results: (string | null)[] = [];
+                for (const key of keys) {
+                    results.push(await client.get(key));
+                }
+                return results;
+            },
+            scanIterator: async function* (match: string, count: number, options: ScanIteratorOptions = {}): AsyncIterable<string> {
+                // 直接调用 SCAN 才能拿到游标；node-redis v4 的游标为数字，v5 为字符串
+                if (typeof (client as any).scan === 'function') {
+                    let cursor = options.cursor ?? '0';
+                    do {
+                        const reply = await (client as any).scan(cursor, { MATCH: match, COUNT: count });
+                        for (const key of reply.keys as string[]) {
+                            yield key;
+                        }
+                        cursor = String(reply.cursor);
+                        await options.onCursor?.(cursor);
+                    } while (cursor !== '0');
+                } else if (typeof (client as any).scanIterator === 'function') {
+                    if (options.cursor !== undefined && options.cursor !== '0') {
+                        throw new Error('Resuming a scan from a cursor requires a client with the SCAN command');
+                    }
+                    const iterator = (client as any).scanIterator({ MATCH: match, COUNT: count });
+                    for await (const batch of iterator) {
+                        // node-redis 返回的可能是批次数组
+                        if (Array.isArray(batch)) {
+                            for (const key of batch) {
+                                yield key;
+                            }
+                        } else {
+                            yield batch;
+                        }
+                    }
+                } else {
+                    // Fallback for clients without scanIterator
+                    return;
+                }
+            },
+            sadd: async (key: string, members: string[]) => {
+                if (members.length === 0) {
+                    return 0;
+                }
+                return (client as any).sAdd(key, members);
+            },
+            srem: async (key: string, members: string[]) => {
+                if (members.length === 0) {
+                    return 0;
+                }
+                return (client as any).sRem(key, members);
+            },
+            smembers: async (key: string) => {
+                return (client as any).sMembers(key);
+            },
+            hset: async (key: string, fields: Record<string, string>) => {
+                if (Object.keys(fields).length === 0) {
+                    return 0;
+                }
+                return (client as any).hSet(key, fields);
+            },
+            hgetall: async (key: string) => {
+                // node-redis 可能返回无原型对象，这里转换为普通对象
+                return { ...(await (client as any).hGetAll(key)) };
+            },
+            hdel: async (key: string, fields: string[]) => {
+                if (fields.length === 0) {
+                    return 0;
+                }
+                return (client as any).hDel(key, fields);
+            },
+            eval: async (script: string, keys: string[], args: string[]) => {
+                return (client as any).eval(script, { keys, arguments: args });
+            },
+            configGet: async (parameter: string) => {
+                const result = await (client as any).configGet(parameter) as Record<string, string>;
+                return result[parameter] ?? null;
+            },
+            configSet: async (parameter: string, value: string) => {
+                return (await (client as any).configSet(parameter, value)) === 'OK';
+            },
+            publish: async (channel: string, message: string) => {
+                return (client as any).publish(channel, message);
+            },
+            subscribe: async (channel: string, listener: (message: string) => void) => {
+                // 订阅模式下的连接不能执行普通命令，需要单独的连接
+                const subscriber: NodeRedisSubscriberLike = (client as any).duplicate();
+                await subscriber.connect();
+                await subscriber.subscribe(channel, (message) => listener(message));
+                return {
+                    unsubscribe: async () => {
+                        await subscriber.unsubscribe(channel);
+                        await subscriber.quit();
+                    }
+                };
+            },
+            database: Number((client as any).options?.database ?? 0)
+        };
+    } else {
+        throw new Error('Unsupported Redis client type. Please use redis or ioredis.');
+    }
+}
+
+// 标准化客户端中执行单条 Redis 命令的方法及对应的命令名，scanIterator 和 subscribe 不在其中；unlink 为可选方法
+export const REDIS_COMMANDS = {
+    get: 'GET',
+    set: 'SET',
+    setex: 'SETEX',
+    del: 'DEL',
+    unlink: 'UNLINK',
+    expire: 'EXPIRE',
+    ttl: 'TTL',
+    pttl: 'PTTL',
+    mget: 'MGET',
+    sadd: 'SADD',
+    srem: 'SREM',
+    smembers: 'SMEMBERS',
+    hset: 'HSET',
+    hgetall: 'HGETALL',
+    hdel: 'HDEL',
+    eval: 'EVAL',
+    configGet: 'CONFIG GET',
+    configSet: 'CONFIG SET',
+    publish: 'PUBLISH'
+} as const;
+
+// 类型守卫函数
+// ioredis 同样具有 setex/ttl/mget，需要通过 scanIterator 且没有原生 scan 来区分
+export function isNormalizedRedisClient(client: any): client is NormalizedRedisClient {
+    return (
+        'setex' in client && 
+        'ttl' in client && 
+        'mget' in client &&
+        typeof client.setex === 'function' &&
+        typeof client.ttl === 'function' &&
+        typeof client.mget === 'function' &&
+        typeof client.scanIterator === 'function' &&
+        typeof client.scan !== 'function'
+    );
+}
@@ -0,0 +1,35 @@
+/**
+ * A session as stored in Redis: a string, or the fields of a hash with storage: 'hash'
+ */
+export type StoredSessionPayload = string | Record<string, string>;
+
+// 随会话一起保存的元数据：字符串存储中以标记形式写在序列化数据之前，哈希存储中写入 $meta 字段
+// 两种形式都位于签名和加密范围之内
+export interface SessionRecordMeta {
+    // 创建时间（毫秒时间戳）
+    createdAt?: number;
+    // 会话自身的空闲 TTL（秒），false 表示不过期
+    ttl?: number | false;
+    // 写入时的数据结构版本，仅在启用 schema 选项时记录
+    version?: number;
+}
+
+/**
+ * Converts session data to and from the stored form of one store configuration:
+ * its serializer, compression, encryption, signing and storage format
+ */
+export interface SessionCodec<UserData> {
+    readonly storage: 'string' | 'hash';
+
+    /**
+     * Verify, decrypt and deserialize a stored session
+     * The metadata only holds what was stored with the session
+     * @throws SessionSignatureError or SessionDecodeError
+     */
+    decode(sessionId: string, stored: StoredSessionPayload): { data: UserData; meta: SessionRecordMeta };
+
+    /**
+     * Encode a session the way the store writes it, without a revision
+     */
+    encode(sessionId: string, data: UserData, meta?: SessionRecordMeta): StoredSessionPayload;
+}
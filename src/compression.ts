@@ -0,0 +1,53 @@
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from 'zlib';
+import { readTag, writeTag } from './envelope';
+
+export type CompressionAlgorithm = 'gzip' | 'brotli';
+
+export interface SessionCompressionOptions {
+    /**
+     * @default 'gzip'
+     */
+    algorithm?: CompressionAlgorithm;
+
+    /**
+     * Only payloads larger than this many bytes are compressed
+     * @default 1024
+     */
+    threshold?: number;
+}
+
+const MARKERS: Record<CompressionAlgorithm, string> = {
+    gzip: 'gz',
+    brotli: 'br'
+};
+
+export function compressPayload(payload: string, options: SessionCompressionOptions = {}): string {
+    const algorithm = options.algorithm ?? 'gzip';
+    const threshold = options.threshold ?? 1024;
+
+    const input = Buffer.from(payload, 'utf8');
+    if (input.length <= threshold) {
+        return payload;
+    }
+
+    const compressed = algorithm === 'brotli' ? brotliCompressSync(input) : gzipSync(input);
+    const encoded = writeTag(MARKERS[algorithm], compressed.toString('base64'));
+    // base64 膨胀后如果没有变小就保持原样
+    return encoded.length < payload.length ? encoded : payload;
+}
+
+/**
+ * Values without a compression marker are returned unchanged,
+ * so it is safe to call whether or not compression is enabled
+ */
+export function decompressPayload(raw: string): string {
+    const gzip = readTag(raw, MARKERS.gzip);
+    if (gzip) {
+        return gunzipSync(Buffer.from(gzip.rest, 'base64')).toString('utf8');
+    }
+    const brotli = readTag(raw, MARKERS.brotli);
+    if (brotli) {
+        return brotliDecompressSync(Buffer.from(brotli.rest, 'base64')).toString('utf8');
+    }
+    return raw;
+}
@@ -0,0 +1,106 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { readTag, writeTag } from './envelope';
+
+export interface SessionEncryptionOptions {
+    /**
+     * Keyring of 32-byte AES-256 keys, as Buffers or base64 strings, indexed by key id
+     * Keep retired keys here so sessions written with them stay readable
+     */
+    keys: Record<string, Buffer | string>;
+
+    /**
+     * Id of the key used to encrypt new writes
+     */
+    activeKeyId: string;
+
+    /**
+     * Accept values that carry no encryption marker, e.g. while rolling out encryption
+     * Leave disabled afterwards: an attacker can simply write plaintext data
+     * @default false
+     */
+    allowPlaintext?: boolean;
+}
+
+export interface SessionEncryptor {
+    /**
+     * @param context bound to the ciphertext as additional authenticated data,
+     * so it only decrypts with the same context (the session id)
+     */
+    encrypt(context: string, plaintext: string): string;
+    /**
+     * Values without an encryption marker are rejected unless allowPlaintext is set
+     */
+    decrypt(context: string, raw: string): string;
+    /**
+     * Whether the value is encrypted with the active key, i.e. does not need re-encrypting before a retired key is removed
+     */
+    usesActiveKey(raw: string): boolean;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export function createSessionEncryptor(options: SessionEncryptionOptions): SessionEncryptor {
+    const keyring = new Map<string, Buffer>();
+    for (const [keyId, key] of Object.entries(options.keys)) {
+        if (!/^[\w.-]+$/.test(keyId)) {
+            throw new Error(`Invalid encryption key id: ${keyId}`);
+        }
+        const buffer = typeof key === 'string' ? Buffer.from(key, 'base64') : key;
+        if (buffer.length !== 32) {
+            throw new Error(`Encryption key "${keyId}" must be 32 bytes for AES-256-GCM`);
+        }
+        keyring.set(keyId, buffer);
+    }
+
+    const activeKey = keyring.get(options.activeKeyId);
+    if (!activeKey) {
+        throw new Error(`Active encryption key "${options.activeKeyId}" is not in the keyring`);
+    }
+
+    return {
+        encrypt(context: string, plaintext: string): string {
+            const iv = randomBytes(IV_LENGTH);
+            const cipher = createCipheriv(ALGORITHM, activeKey, iv);
+            // 认证标签同时覆盖会话 ID，防止将其他会话的密文复制到自己的 key 下
+            cipher.setAAD(Buffer.from(context, 'utf8'));
+            const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+            // 格式：iv | authTag | ciphertext
+            const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+            return writeTag('enc', payload, options.activeKeyId);
+        },
+
+        decrypt(context: string, raw: string): string {
+            const tag = readTag(raw, 'enc');
+            if (!tag) {
+                if (!options.allowPlaintext) {
+                    throw new Error('Session payload is not encrypted');
+                }
+                return raw;
+            }
+
+            const key = keyring.get(tag.param ?? '');
+            if (!key) {
+                throw new Error(`Unknown encryption key id: ${tag.param}`);
+            }
+
+            const payload = Buffer.from(tag.rest, 'base64');
+            if (payload.length < IV_LENGTH + AUTH_TAG_LENGTH) {
+                throw new Error('Encrypted session payload is truncated');
+            }
+            const iv = payload.subarray(0, IV_LENGTH);
+            const authTag = payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+            const ciphertext = payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+            const decipher = createDecipheriv(ALGORITHM, key, iv);
+            decipher.setAAD(Buffer.from(context, 'utf8'));
+            decipher.setAuthTag(authTag);
+            return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+        },
+
+        usesActiveKey(raw: string): boolean {
+            return readTag(raw, 'enc')?.param === options.activeKeyId;
+        }
+    };
+}
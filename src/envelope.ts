@@ -0,0 +1,36 @@
+// 存储值的标记格式：`$name$rest` 或 `$name:param$rest`
+// 纯 JSON 永远不会以 `$` 开头，因此旧数据可以与带标记的数据共存
+
+export interface Tag {
+    param?: string;
+    rest: string;
+}
+
+const PARAM_PATTERN = /^[\w.:+/=-]*$/;
+
+export function writeTag(name: string, rest: string, param?: string): string {
+    if (param === undefined) {
+        return `$${name}$${rest}`;
+    }
+    if (!PARAM_PATTERN.test(param)) {
+        throw new Error(`Invalid envelope parameter for "${name}": ${param}`);
+    }
+    return `$${name}:${param}$${rest}`;
+}
+
+export function readTag(raw: string, name: string): Tag | null {
+    if (raw.startsWith(`$${name}$`)) {
+        return { rest: raw.slice(name.length + 2) };
+    }
+    if (!raw.startsWith(`$${name}:`)) {
+        return null;
+    }
+    const end = raw.indexOf('$', name.length + 2);
+    if (end === -1) {
+        return null;
+    }
+    return {
+        param: raw.slice(name.length + 2, end),
+        rest: raw.slice(end + 1)
+    };
+}
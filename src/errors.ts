@@ -0,0 +1,166 @@
+import type { SessionOperation } from './events';
+
+/**
+ * Raised when a stored session fails HMAC verification.
+ * The store treats the session as missing and reports the error
+ * through the onInvalidSignature option.
+ */
+export class SessionSignatureError extends Error {
+    readonly sessionId: string;
+
+    constructor(sessionId: string, message: string) {
+        super(message);
+        this.name = 'SessionSignatureError';
+        this.sessionId = sessionId;
+    }
+}
+
+/**
+ * Base class for failures surfaced by the onError policy.
+ * The original error is kept in cause.
+ */
+export class SessionStoreError extends Error {
+    readonly sessionId?: string;
+    readonly cause: unknown;
+
+    constructor(message: string, sessionId: string | undefined, cause: unknown) {
+        super(message);
+        this.name = 'SessionStoreError';
+        this.sessionId = sessionId;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Redis could not be reached: the connection was refused, closed or timed out.
+ */
+export class SessionStoreConnectionError extends SessionStoreError {
+    constructor(message: string, sessionId: string | undefined, cause: unknown) {
+        super(message, sessionId, cause);
+        this.name = 'SessionStoreConnectionError';
+    }
+}
+
+/**
+ * A stored session could not be decoded (malformed JSON, unknown serializer,
+ * a payload that fails to decrypt or decompress).
+ */
+export class SessionDecodeError extends SessionStoreError {
+    constructor(message: string, sessionId: string | undefined, cause: unknown) {
+        super(message, sessionId, cause);
+        this.name = 'SessionDecodeError';
+    }
+}
+
+/**
+ * Stored session data failed the schema validator, or a migration threw.
+ * version is the schema version the payload was stored with.
+ */
+export class SessionValidationError extends SessionDecodeError {
+    readonly version: number;
+    readonly path?: (string | number)[];
+
+    constructor(message: string, sessionId: string | undefined, cause: unknown, version: number, path?: (string | number)[]) {
+        super(message, sessionId, cause);
+        this.name = 'SessionValidationError';
+        this.version = version;
+        this.path = path;
+    }
+}
+
+/**
+ * A write was rejected, either before reaching Redis (data that cannot be
+ * serialized or stored) or by Redis itself (e.g. OOM or READONLY replies).
+ */
+export class SessionWriteError extends SessionStoreError {
+    constructor(message: string, sessionId: string | undefined, cause: unknown) {
+        super(message, sessionId, cause);
+        this.name = 'SessionWriteError';
+    }
+}
+
+/**
+ * A Redis command did not reply within the resilience layer's commandTimeout.
+ */
+export class RedisCommandTimeoutError extends Error {
+    readonly command: string;
+
+    constructor(command: string, timeout: number) {
+        super(`Redis ${command} timed out after ${timeout}ms`);
+        this.name = 'RedisCommandTimeoutError';
+        this.command = command;
+    }
+}
+
+/**
+ * The circuit breaker is open and the command was not sent to Redis.
+ */
+export class RedisCircuitOpenError extends Error {
+    readonly command: string;
+
+    constructor(command: string) {
+        super(`Redis ${command} rejected: circuit breaker is open`);
+        this.name = 'RedisCircuitOpenError';
+        this.command = command;
+    }
+}
+
+const CONNECTION_ERROR_CODES = new Set([
+    'ECONNREFUSED',
+    'ECONNRESET',
+    'ETIMEDOUT',
+    'EPIPE',
+    'ENOTFOUND',
+    'EHOSTUNREACH',
+    'EAI_AGAIN'
+]);
+
+// ioredis 与 node-redis 的连接类错误没有共同的基类，按错误码、类名和消息识别
+const CONNECTION_ERROR_NAMES = new Set([
+    'MaxRetriesPerRequestError',
+    'ClientClosedError',
+    'ClientOfflineError',
+    'ConnectionTimeoutError',
+    'SocketClosedUnexpectedlyError',
+    'SocketTimeoutError',
+    'RedisCommandTimeoutError',
+    'RedisCircuitOpenError'
+]);
+
+const hasErrorName = (error: Error, names: Set<string>) =>
+    names.has(error.name) || names.has(error.constructor?.name);
+
+const REPLY_ERROR_NAMES = new Set(['ReplyError', 'ErrorReply']);
+
+export function isConnectionError(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+        return false;
+    }
+    const code = (error as { code?: unknown }).code;
+    return (typeof code === 'string' && CONNECTION_ERROR_CODES.has(code))
+        || hasErrorName(error, CONNECTION_ERROR_NAMES)
+        || /connection is closed|client is closed|command timed out|stream isn't writeable/i.test(error.message);
+}
+
+// ioredis 为 ReplyError，node-redis 为 ErrorReply
+function isReplyError(error: unknown): boolean {
+    return error instanceof Error && hasErrorName(error, REPLY_ERROR_NAMES);
+}
+
+/**
+ * Wrap an error raised during a store operation in the matching typed error.
+ * Error replies from Redis count as write rejections for every operation except get.
+ */
+export function toSessionStoreError(operation: SessionOperation, sessionId: string | undefined, error: unknown): SessionStoreError {
+    if (error instanceof SessionStoreError) {
+        return error;
+    }
+    const reason = error instanceof Error ? error.message : String(error);
+    if (isConnectionError(error)) {
+        return new SessionStoreConnectionError(`Redis connection failed during ${operation}: ${reason}`, sessionId, error);
+    }
+    if (isReplyError(error) && operation !== 'get') {
+        return new SessionWriteError(`Redis rejected the ${operation} write: ${reason}`, sessionId, error);
+    }
+    return new SessionStoreError(`Session ${operation} failed: ${reason}`, sessionId, error);
+}
@@ -0,0 +1,118 @@
+import type { SessionStoreError } from './errors';
+
+/**
+ * Store operation during which an error was raised
+ */
+export type SessionOperation = 'get' | 'set' | 'create' | 'destroy' | 'regenerate' | 'touch';
+
+export interface SessionEventMap<UserData> {
+    /** A new session was written */
+    create: { sessionId: string; data: UserData };
+    /** get returned a stored session */
+    load: { sessionId: string; data: UserData };
+    /** set wrote the session */
+    save: { sessionId: string; data: UserData };
+    /** A session was destroyed, by destroy or one of the admin methods */
+    destroy: { sessionId: string };
+    /** touch extended the session */
+    touch: { sessionId: string; expiresTime: number };
+    /** rolling or renew extended the session while reading it */
+    renew: { sessionId: string; expiresTime: number };
+    /** A store operation failed; emitted before the onError policy is applied */
+    error: { operation: SessionOperation; sessionId?: string; error: SessionStoreError };
+}
+
+export type SessionEventName = keyof SessionEventMap<unknown>;
+
+export type SessionEventListener<Payload> = (payload: Payload) => void | Promise<void>;
+
+/**
+ * Hooks configured in the store options.
+ * Each hook runs before listeners added with events.on
+ */
+export interface SessionLifecycleHooks<UserData> {
+    onCreate?: SessionEventListener<SessionEventMap<UserData>['create']>;
+    onLoad?: SessionEventListener<SessionEventMap<UserData>['load']>;
+    onSave?: SessionEventListener<SessionEventMap<UserData>['save']>;
+    onDestroy?: SessionEventListener<SessionEventMap<UserData>['destroy']>;
+    onTouch?: SessionEventListener<SessionEventMap<UserData>['touch']>;
+    onRenew?: SessionEventListener<SessionEventMap<UserData>['renew']>;
+    onError?: SessionEventListener<SessionEventMap<UserData>['error']>;
+}
+
+/**
+ * Typed emitter for session lifecycle events.
+ * Listeners are awaited one after another in registration order before the
+ * store operation returns; a listener that throws is reported and skipped
+ * without affecting the operation or the remaining listeners.
+ */
+export interface SessionEventEmitter<UserData> {
+    on<E extends SessionEventName>(event: E, listener: SessionEventListener<SessionEventMap<UserData>[E]>): SessionEventEmitter<UserData>;
+    once<E extends SessionEventName>(event: E, listener: SessionEventListener<SessionEventMap<UserData>[E]>): SessionEventEmitter<UserData>;
+    off<E extends SessionEventName>(event: E, listener: SessionEventListener<SessionEventMap<UserData>[E]>): SessionEventEmitter<UserData>;
+}
+
+export interface SessionEventDispatcher<UserData> extends SessionEventEmitter<UserData> {
+    emit<E extends SessionEventName>(event: E, payload: SessionEventMap<UserData>[E]): Promise<void>;
+}
+
+const HOOK_EVENTS: [keyof SessionLifecycleHooks<unknown>, SessionEventName][] = [
+    ['onCreate', 'create'],
+    ['onLoad', 'load'],
+    ['onSave', 'save'],
+    ['onDestroy', 'destroy'],
+    ['onTouch', 'touch'],
+    ['onRenew', 'renew'],
+    ['onError', 'error']
+];
+
+export function createSessionEventEmitter<UserData>(
+    hooks: SessionLifecycleHooks<UserData> = {},
+    onListenerError: (error: unknown, event: SessionEventName) => void
+): SessionEventDispatcher<UserData> {
+    // once 注册的包装函数记录原始监听器，使 off 传入原始监听器时也能移除
+    type RegisteredListener = SessionEventListener<any> & { listener?: SessionEventListener<any> };
+    const listeners = new Map<SessionEventName, RegisteredListener[]>();
+
+    const emitter: SessionEventDispatcher<UserData> = {
+        on(event, listener) {
+            listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+            return emitter;
+        },
+
+        once(event, listener) {
+            const wrapper: RegisteredListener = (payload) => {
+                emitter.off(event, wrapper);
+                return listener(payload);
+            };
+            wrapper.listener = listener;
+            return emitter.on(event, wrapper);
+        },
+
+        off(event, listener) {
+            listeners.set(event, (listeners.get(event) ?? []).filter((item) => item !== listener && item.listener !== listener));
+            return emitter;
+        },
+
+        async emit(event, payload) {
+            // 复制一份监听器列表，避免 once 在遍历期间修改列表
+            for (const listener of [...(listeners.get(event) ?? [])]) {
+                try {
+                    await listener(payload);
+                } catch (error) {
+                    onListenerError(error, event);
+                }
+            }
+        }
+    };
+
+    // 选项中的钩子最先注册，因此总是先于 events.on 添加的监听器执行
+    for (const [hook, event] of HOOK_EVENTS) {
+        const listener = hooks[hook];
+        if (listener) {
+            emitter.on(event, listener as SessionEventListener<any>);
+        }
+    }
+
+    return emitter;
+}
@@ -0,0 +1,120 @@
+import { createNormalizedRedisClient, isNormalizedRedisClient } from './client';
+import type { IoRedisLike, NodeRedisLike, NormalizedRedisClient, RedisLikeClient } from './client';
+import type { SessionLogger } from './logger';
+import { createSessionKeyspace } from './keys';
+import type { SessionKeyLayout } from './keys';
+
+export interface SessionExpiryListenerOptions {
+    /**
+     * Redis key prefix for sessions, the same as the store's prefix
+     * @default 'session'
+     */
+    prefix?: string;
+
+    /**
+     * Key layout used by the store
+     * @default 'plain'
+     */
+    keyLayout?: SessionKeyLayout;
+
+    /**
+     * Called with the id of every session that expires in Redis
+     * Sessions removed with destroy are not reported
+     */
+    onExpire: (sessionId: string) => void | Promise<void>;
+
+    /**
+     * How to treat the notify-keyspace-events server setting, which must include "E" and "x"
+     * - 'check': fail if expired events are not enabled
+     * - 'enable': add the missing flags with CONFIG SET
+     * - 'skip': do not read the setting, e.g. when CONFIG is disabled on managed Redis
+     * @default 'check'
+     */
+    notifications?: 'check' | 'enable' | 'skip';
+
+    /**
+     * Logical database to listen on
+     * @default the database the client is connected to
+     */
+    database?: number;
+
+    /**
+     * Called when onExpire throws or rejects
+     * @default logs the error with the logger
+     */
+    onError?: (error: unknown, sessionId: string) => void;
+
+    /**
+     * Logger for handler failures when onError is not set
+     * @default console
+     */
+    logger?: SessionLogger;
+}
+
+export interface SessionExpiryListener {
+    /**
+     * Stop listening and close the subscriber connection
+     */
+    close(): Promise<void>;
+}
+
+// notify-keyspace-events 需要包含 E（键事件通道）和 x（过期事件，A 是包含 x 的别名）
+const hasExpiredEvents = (flags: string) => flags.includes('E') && (flags.includes('x') || flags.includes('A'));
+
+/**
+ * Listen to `__keyevent@<db>__:expired` on a duplicated connection and report
+ * sessions under the prefix that expired in Redis.
+ */
+export async function createSessionExpiryListener(
+    client: IoRedisLike | NodeRedisLike | RedisLikeClient | NormalizedRedisClient,
+    options: SessionExpiryListenerOptions
+): Promise<SessionExpiryListener> {
+    const normalizedClient = isNormalizedRedisClient(client)
+        ? client
+        : createNormalizedRedisClient(client as RedisLikeClient);
+    const notifications = options.notifications ?? 'check';
+
+    if (notifications !== 'skip') {
+        const flags = await normalizedClient.configGet('notify-keyspace-events') ?? '';
+        if (!hasExpiredEvents(flags)) {
+            if (notifications === 'check') {
+                throw new Error(`Redis notify-keyspace-events must include "Ex" to report expired sessions (current: "${flags}")`);
+            }
+            // 保留已有的标记，只补充缺少的部分
+            let next = flags.includes('E') ? flags : `${flags}E`;
+            if (!next.includes('x') && !next.includes('A')) {
+                next += 'x';
+            }
+            await normalizedClient.configSet('notify-keyspace-events', next);
+        }
+    }
+
+    const keyspace = createSessionKeyspace(options.prefix ?? 'session', options.keyLayout);
+    const channel = `__keyevent@${options.database ?? normalizedClient.database}__:expired`;
+    const logger = options.logger ?? console;
+    const reportError = options.onError ?? ((error: unknown) => {
+        logger.error('Session expiry handler failed:', error);
+    });
+
+    let closed = false;
+    const subscription = await normalizedClient.subscribe(channel, (key) => {
+        // 同一数据库中的其他 key（包括用户索引）也会触发过期事件
+        const sessionId = closed ? undefined : keyspace.sessionId(key);
+        if (sessionId === undefined) {
+            return;
+        }
+        Promise.resolve()
+            .then(() => options.onExpire(sessionId))
+            .catch((error) => reportError(error, sessionId));
+    });
+
+    return {
+        async close() {
+            if (closed) {
+                return;
+            }
+            closed = true;
+            await subscription.unsubscribe();
+        }
+    };
+}
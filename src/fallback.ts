@@ -0,0 +1,381 @@
+import { SessionStore, sessionMetaDataCtx } from 'farrow-auth-session';
+import { createContainer, runWithContainer } from 'farrow-pipeline';
+import { SessionDecodeError, SessionWriteError } from './errors';
+
+/**
+ * Which store currently serves requests
+ */
+export type FallbackState = 'primary' | 'secondary';
+
+export interface FallbackSessionStoreOptions {
+    /**
+     * Milliseconds to stay on the secondary before trying the primary again
+     * @default 5000
+     */
+    retryInterval?: number;
+
+    /**
+     * What happens to sessions written to the secondary once the primary is back
+     * - 'reconcile': copy them to the primary; the write made during the outage wins.
+     *   Sessions created during the outage go through the primary's restore method when it has one,
+     *   other sessions are only copied while the primary still holds them
+     * - 'discard': drop them; sessions created during the outage are logged out and
+     *   updates made during the outage are lost
+     * Sessions destroyed during the outage are destroyed in the primary under both policies
+     * @default 'reconcile'
+     */
+    onRecover?: 'reconcile' | 'discard';
+
+    /**
+     * Most sessions kept pending; beyond it the oldest write is forgotten, as with onRecover: 'discard'
+     * @default 10000
+     */
+    maxPending?: number;
+
+    /**
+     * Checked before every call; return false to go straight to the secondary,
+     * e.g. () => redisStore.circuit?.state !== 'open'
+     */
+    isPrimaryHealthy?: () => boolean;
+
+    /**
+     * Called when requests switch between the primary and the secondary
+     */
+    onStateChange?: (state: FallbackState) => void;
+}
+
+/**
+ * A primary store, optionally able to write a session created elsewhere, such as RedisSessionStore
+ */
+export interface FallbackPrimaryStore<UserData> extends SessionStore<UserData, string> {
+    restore?(sessionId: string, userData: UserData, createdAt?: number): Promise<boolean | undefined>;
+}
+
+/**
+ * A secondary store, optionally able to shorten the life of a copy, such as the memory store
+ */
+export interface FallbackSecondaryStore<UserData> extends SessionStore<UserData, string> {
+    expireAt?(sessionId: string, expiresTime: number): boolean;
+}
+
+export interface FallbackSessionStore<UserData> extends SessionStore<UserData, string> {
+    readonly state: FallbackState;
+
+    /**
+     * Sessions written or destroyed on the secondary that are not reconciled yet
+     */
+    readonly pending: number;
+
+    /**
+     * Apply the onRecover policy to every pending session now instead of on their next read
+     * Must run inside a farrow container. Returns the number of sessions processed
+     */
+    reconcile(): Promise<number>;
+
+    /**
+     * Remove sessions from the secondary and the pending list, e.g. ones revoked in the primary
+     */
+    evict(sessionIds: string[]): Promise<void>;
+}
+
+type PrimaryResult<T> = { ok: true; value: T } | { ok: false };
+
+// create 记录故障期间新建的会话及其创建时间，恢复后以创建的方式写入主存储
+type PendingChange = { kind: 'create'; createdAt: number } | { kind: 'write' } | { kind: 'destroy' };
+
+/**
+ * Serve sessions from a secondary store while the primary is failing.
+ * Sessions the primary returns or stores are mirrored to the secondary, so they stay readable during an outage.
+ */
+export function createFallbackSessionStore<UserData = any>(
+    primary: FallbackPrimaryStore<UserData>,
+    secondary: FallbackSecondaryStore<UserData>,
+    options: FallbackSessionStoreOptions = {}
+): FallbackSessionStore<UserData> {
+    const retryInterval = options.retryInterval ?? 5000;
+    const onRecover = options.onRecover ?? 'reconcile';
+    const maxPending = options.maxPending ?? 10000;
+
+    let state: FallbackState = 'primary';
+    let retryAt = 0;
+    // 故障期间在备用存储中写入或删除、尚未同步回主存储的会话，按最近一次变更排序
+    const pending = new Map<string, PendingChange>();
+
+    const setPending = (sessionId: string, change: PendingChange) => {
+        pending.delete(sessionId);
+        pending.set(sessionId, change);
+        if (pending.size <= maxPending) {
+            return;
+        }
+        // 优先丢弃最早的写入，登出一旦丢失，会话会在恢复后重新生效
+        let dropped = pending.keys().next().value as string;
+        for (const [id, entry] of pending) {
+            if (entry.kind !== 'destroy') {
+                dropped = id;
+                break;
+            }
+        }
+        pending.delete(dropped);
+    };
+
+    const setState = (next: FallbackState) => {
+        if (next !== state) {
+            state = next;
+            options.onStateChange?.(next);
+        }
+    };
+
+    const degrade = () => {
+        retryAt = Date.now() + retryInterval;
+        setState('secondary');
+    };
+
+    const usePrimary = () => {
+        if (options.isPrimaryHealthy && !options.isPrimaryHealthy()) {
+            degrade();
+            return false;
+        }
+        return state === 'primary' || Date.now() >= retryAt;
+    };
+
+    // 主存储返回 undefined 或抛出异常均视为失败；解码和写入错误与 Redis 是否可用无关，原样抛出
+    const callPrimary = async <T>(run: () => Promise<T | undefined>): Promise<PrimaryResult<T>> => {
+        try {
+            const value = await run();
+            if (value === undefined) {
+                degrade();
+                return { ok: false };
+            }
+            setState('primary');
+            return { ok: true, value };
+        } catch (error) {
+            if (error instanceof SessionDecodeError || error instanceof SessionWriteError) {
+                throw error;
+            }
+            degrade();
+            return { ok: false };
+        }
+    };
+
+    // 在指定会话的上下文中调用存储，结束后恢复当前请求的上下文
+    const withSession = async <T>(sessionId: string, run: () => Promise<T>): Promise<T> => {
+        const previous = sessionMetaDataCtx.get();
+        sessionMetaDataCtx.set({ sessionId, expiresTime: previous?.expiresTime ?? 0 });
+        try {
+            return await run();
+        } finally {
+            sessionMetaDataCtx.set(previous);
+        }
+    };
+
+    // 镜像写入失败不影响主存储的结果，故障时备用存储中只是缺少这一份副本
+    const mirror = async (run: () => Promise<unknown>) => {
+        try {
+            await run();
+        } catch {
+            // ignore
+        }
+    };
+
+    // 副本的过期时间不晚于主存储中的会话，主存储中已过期的会话不会在故障期间复活
+    const capSecondary = (sessionId: string, expiresTime: number | undefined) => {
+        if (expiresTime && expiresTime > 0 && secondary.expireAt) {
+            secondary.expireAt(sessionId, expiresTime);
+        }
+    };
+
+    // 主存储成功返回的会话同步写入备用存储，故障期间已登录的用户仍能读取到自己的会话
+    const mirrorToSecondary = (sessionId: string, userData: UserData) => {
+        const expiresTime = sessionMetaDataCtx.get()?.expiresTime;
+        return mirror(async () => {
+            await withSession(sessionId, () => secondary.set(userData));
+            capSecondary(sessionId, expiresTime);
+        });
+    };
+
+    const discardSecondary = (sessionId: string) => mirror(() => withSession(sessionId, () => secondary.destroy()));
+
+    // 按 onRecover 策略同步单个会话；主存储失败或拒绝写入时返回 false 并保留待同步记录
+    const reconcileSession = async (sessionId: string): Promise<boolean> => {
+        const change = pending.get(sessionId);
+        if (!change) {
+            return true;
+        }
+        if (change.kind === 'destroy') {
+            if (!(await callPrimary(() => withSession(sessionId, () => primary.destroy()))).ok) {
+                return false;
+            }
+            pending.delete(sessionId);
+            await discardSecondary(sessionId);
+            return true;
+        }
+        if (onRecover === 'reconcile') {
+            const data = await withSession(sessionId, () => secondary.get(sessionId));
+            if (data) {
+                // 故障前已存在的会话只在主存储中仍然存在时写回：期间被 destroyUserSessions 等撤销或已过期的会话不能因此恢复
+                if (change.kind === 'write') {
+                    const current = await callPrimary(() => withSession(sessionId, () => primary.get(sessionId)));
+                    if (!current.ok) {
+                        return false;
+                    }
+                    if (current.value === null) {
+                        pending.delete(sessionId);
+                        await discardSecondary(sessionId);
+                        return true;
+                    }
+                }
+                // 新建的会话在主存储中没有元数据，set 在启用绝对生命周期或动态 TTL 时会拒绝写入
+                const write = change.kind === 'create' && primary.restore
+                    ? () => primary.restore!(sessionId, data, change.createdAt)
+                    : () => primary.set(data);
+                // 返回 false 说明主存储拒绝了写入（例如会话已超过绝对生命周期），备用存储中的数据不能丢弃
+                const result = await callPrimary(() => withSession(sessionId, write));
+                if (!result.ok || result.value !== true) {
+                    return false;
+                }
+                pending.delete(sessionId);
+                return true;
+            }
+        }
+        pending.delete(sessionId);
+        await discardSecondary(sessionId);
+        return true;
+    };
+
+    const currentSessionId = () => sessionMetaDataCtx.get()?.sessionId;
+
+    return {
+        get state() {
+            return state;
+        },
+
+        get pending() {
+            return pending.size;
+        },
+
+        async get(sessionId) {
+            if (!sessionId) {
+                return null;
+            }
+            if (usePrimary() && await reconcileSession(sessionId)) {
+                const result = await callPrimary(() => primary.get(sessionId));
+                if (result.ok) {
+                    if (result.value === null) {
+                        await discardSecondary(sessionId);
+                    } else {
+                        await mirrorToSecondary(sessionId, result.value);
+                    }
+                    return result.value;
+                }
+            }
+            return pending.get(sessionId)?.kind === 'destroy' ? null : secondary.get(sessionId);
+        },
+
+        async set(userData) {
+            const sessionId = currentSessionId();
+            if (!sessionId) {
+                return undefined;
+            }
+            if (usePrimary()) {
+                const result = await callPrimary(() => primary.set(userData));
+                if (result.ok) {
+                    // 主存储已是最新数据，备用存储中的副本随之更新；主存储拒绝写入时副本同样作废
+                    pending.delete(sessionId);
+                    if (result.value) {
+                        await mirrorToSecondary(sessionId, userData);
+                    } else {
+                        await discardSecondary(sessionId);
+                    }
+                    return result.value;
+                }
+            }
+            const result = await secondary.set(userData);
+            if (result) {
+                const change = pending.get(sessionId);
+                setPending(sessionId, change?.kind === 'create' ? change : { kind: 'write' });
+            }
+            return result;
+        },
+
+        async create(userData) {
+            if (usePrimary()) {
+                const result = await callPrimary(() => primary.create(userData));
+                const sessionId = currentSessionId();
+                if (result.ok) {
+                    if (sessionId) {
+                        await mirrorToSecondary(sessionId, result.value);
+                    }
+                    return result.value;
+                }
+            }
+            const created = await secondary.create(userData);
+            const sessionId = currentSessionId();
+            if (created !== undefined && sessionId) {
+                setPending(sessionId, { kind: 'create', createdAt: Date.now() });
+            }
+            return created;
+        },
+
+        async destroy() {
+            const sessionId = currentSessionId();
+            if (!sessionId) {
+                return false;
+            }
+            if (usePrimary()) {
+                const result = await callPrimary(() => primary.destroy());
+                if (result.ok) {
+                    pending.delete(sessionId);
+                    await discardSecondary(sessionId);
+                    return result.value;
+                }
+            }
+            // 登出必须在恢复后同步到主存储，否则会话会重新生效
+            setPending(sessionId, { kind: 'destroy' });
+            await secondary.destroy();
+            sessionMetaDataCtx.set(undefined);
+            return true;
+        },
+
+        async touch() {
+            if (usePrimary() && primary.touch) {
+                const result = await callPrimary(() => primary.touch!());
+                const sessionId = currentSessionId();
+                if (result.ok) {
+                    if (result.value && sessionId && secondary.touch) {
+                        const expiresTime = sessionMetaDataCtx.get()?.expiresTime;
+                        await mirror(async () => {
+                            await withSession(sessionId, () => secondary.touch!());
+                            capSecondary(sessionId, expiresTime);
+                        });
+                    }
+                    return result.value;
+                }
+            }
+            return secondary.touch ? secondary.touch() : false;
+        },
+
+        async reconcile() {
+            let processed = 0;
+            for (const sessionId of [...pending.keys()]) {
+                // 主存储失败后 usePrimary 返回 false；被主存储拒绝的会话保留在待同步列表中，继续处理其余会话
+                if (!usePrimary()) {
+                    break;
+                }
+                if (await reconcileSession(sessionId)) {
+                    processed++;
+                }
+            }
+            return processed;
+        },
+
+        // 可能在请求之外调用（例如管理脚本触发的 destroy 事件），因此使用独立的容器
+        async evict(sessionIds) {
+            await runWithContainer(async () => {
+                for (const sessionId of sessionIds) {
+                    pending.delete(sessionId);
+                    await discardSecondary(sessionId);
+                }
+            }, createContainer());
+        }
+    };
+}
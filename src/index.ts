@@ -1,200 +1,131 @@
 import { SessionStore, sessionMetaDataCtx } from 'farrow-auth-session';
+import { createContext } from 'farrow-pipeline';
+import { createHash } from 'crypto';
 import { ulid } from 'ulid';
+import { readTag, writeTag } from './envelope';
+import { jsonSerializer, richSerializer } from './serializer';
+import type { SessionSerializer } from './serializer';
+import { createSessionEncryptor } from './encryption';
+import type { SessionEncryptionOptions } from './encryption';
+import { createSessionSigner } from './signing';
+import type { SessionSigningOptions } from './signing';
+import {
+    SessionSignatureError,
+    SessionDecodeError,
+    SessionStoreError,
+    SessionValidationError,
+    SessionWriteError,
+    toSessionStoreError
+} from './errors';
+import { compressPayload, decompressPayload } from './compression';
+import type { SessionCompressionOptions } from './compression';
+import { createSessionEventEmitter } from './events';
+import type { SessionEventEmitter, SessionLifecycleHooks, SessionOperation } from './events';
+import { createLevelLogger } from './logger';
+import type { SessionLogger, SessionLogLevel } from './logger';
+import { createSessionInstruments, instrumentRedisClient } from './metrics';
+import type { SessionTelemetryOptions } from './metrics';
+import { createSessionCache } from './cache';
+import type { SessionCacheOptions } from './cache';
+import { createResilientRedisClient } from './resilience';
+import type { CircuitBreaker, RedisResilienceOptions } from './resilience';
+import { upgradeSessionData } from './schema';
+import type { SessionSchemaOptions } from './schema';
+import { createSessionKeyspace } from './keys';
+import type { SessionKeyLayout, SessionKeyspace } from './keys';
+import { createNormalizedRedisClient, isNormalizedRedisClient } from './client';
+import type { SessionCodec, SessionRecordMeta, StoredSessionPayload } from './codec';
+import type {
+    IoRedisClusterLike,
+    IoRedisLike,
+    NodeRedisClusterLike,
+    NodeRedisLike,
+    NormalizedRedisClient,
+    RedisLikeClient
+} from './client';
 
-// 为常用Redis客户端提供类型支持
-export interface IoRedisLike {
-    get(key: string): Promise<string | null>;
-    set(key: string, value: string): Promise<string>;
-    setex(key: string, seconds: number, value: string): Promise<string>;
-    del(...keys: string[]): Promise<number>;
-    expire(key: string, seconds: number): Promise<number>;
-    ttl(key: string): Promise<number>;
-    mget(...keys: string[]): Promise<(string | null)[]>;
-    scan(cursor: number | string, ...args: any[]): Promise<[string, string[]]>;
-}
-
-export interface NodeRedisLike {
-    get(key: string): Promise<string | null>;
-    set(key: string, value: string): Promise<string>;
-    setEx(key: string, seconds: number, value: string): Promise<string>;
-    del(keyOrKeys: string | string[]): Promise<number>;
-    expire(key: string, seconds: number): Promise<boolean>;
-    ttl(key: string): Promise<number>;
-    mGet(keys: string[]): Promise<(string | null)[]>;
-    scanIterator(options: { MATCH?: string; COUNT?: number }): AsyncIterable<string>;
-}
-
-
-export interface RedisLikeClient {
-    get(key: string): Promise<string | null>;
-    set(key: string, value: string): Promise<string | 'OK' | null>;
-    del(key: string | string[]): Promise<number>;
-    expire(key: string, seconds: number): Promise<number | boolean>;
-    mGet?(keys: string[]): Promise<(string | null)[]>;
-    mget?(keys: string[]): Promise<(string | null)[]>;
-    scan?(cursor: number | string, ...args: any[]): Promise<[string, string[]]>;
-    scanIterator?(options: { MATCH?: string; COUNT?: number }): AsyncIterable<string>;
-}
-
-export interface NormalizedRedisClient {
-    get(key: string): Promise<string | null>;
-    set(key: string, value: string): Promise<boolean>;
-    setex(key: string, seconds: number, value: string): Promise<boolean>;
-    del(keyOrKeys: string | string[]): Promise<number>;
-    expire(key: string, seconds: number): Promise<boolean>;
-    ttl(key: string): Promise<number>;
-    mget(keys: string[]): Promise<(string | null)[]>;
-    scanIterator(match: string, count: number): AsyncIterable<string>;
-}
+export { createNormalizedRedisClient } from './client';
+export type {
+    IoRedisLike,
+    IoRedisClusterLike,
+    IoRedisSubscriberLike,
+    NodeRedisLike,
+    NodeRedisClusterLike,
+    NodeRedisSubscriberLike,
+    RedisLikeClient,
+    NormalizedRedisClient,
+    RedisSubscription,
+    ScanIteratorOptions
+} from './client';
 
-function isIoRedisClient(client: any): boolean {
-    return typeof client.scan === 'function' && 
-           typeof client.mget === 'function' &&
-           !client.scanIterator;
-}
+export type { SessionCodec, SessionRecordMeta, StoredSessionPayload } from './codec';
 
-function isNodeRedisClient(client: any): boolean {
-    return typeof client.scanIterator === 'function' && 
-           typeof client.mGet === 'function';
-}
+export { jsonSerializer, richSerializer } from './serializer';
+export type { SessionSerializer } from './serializer';
+export { createSessionEncryptor } from './encryption';
+export type { SessionEncryptionOptions, SessionEncryptor } from './encryption';
+export { createSessionSigner } from './signing';
+export type { SessionSigningOptions, SessionSigner, SignatureVerification } from './signing';
+export {
+    SessionSignatureError,
+    SessionStoreError,
+    SessionStoreConnectionError,
+    SessionDecodeError,
+    SessionValidationError,
+    SessionWriteError,
+    RedisCommandTimeoutError,
+    RedisCircuitOpenError
+} from './errors';
+export type { SessionLogger, SessionLogLevel } from './logger';
+export { createMetricsRecorder, instrumentRedisClient, SESSION_METRICS } from './metrics';
+export type {
+    MetricAttributes,
+    MetricOptions,
+    SessionCounter,
+    SessionHistogram,
+    SessionMeter,
+    SessionSpan,
+    SessionTracer,
+    SessionTelemetryOptions,
+    SessionMetricsRecorder,
+    RecordedSpan
+} from './metrics';
+export type { CompressionAlgorithm, SessionCompressionOptions } from './compression';
+export type {
+    SessionOperation,
+    SessionEventMap,
+    SessionEventName,
+    SessionEventListener,
+    SessionLifecycleHooks,
+    SessionEventEmitter
+} from './events';
+export { createSessionExpiryListener } from './expiry';
+export type { SessionExpiryListenerOptions, SessionExpiryListener } from './expiry';
+export type { SessionCacheOptions } from './cache';
+export type { SessionKeyLayout } from './keys';
+export type { SessionSchemaOptions, SessionValidator, SessionValidationResult } from './schema';
+export { migrateSessions } from './migrate';
+export type { MigrateSessionsOptions, MigrateSessionsProgress } from './migrate';
+export { createFallbackSessionStore } from './fallback';
+export type {
+    FallbackState,
+    FallbackSessionStoreOptions,
+    FallbackSessionStore,
+    FallbackPrimaryStore,
+    FallbackSecondaryStore
+} from './fallback';
+export { createMemorySessionStore } from './memory';
+export type { MemorySessionStore, MemorySessionStoreOptions } from './memory';
+export { createResilientRedisClient } from './resilience';
+export type {
+    CircuitState,
+    CircuitBreaker,
+    CircuitBreakerOptions,
+    RedisRetryOptions,
+    RedisResilienceOptions,
+    ResilientRedisClient
+} from './resilience';
 
-export function createNormalizedRedisClient(client: RedisLikeClient): NormalizedRedisClient {
-    if (isIoRedisClient(client)) {
-        return {
-            get: async (key: string) => {
-                return client.get(key);
-            },
-            set: async (key: string, value: string) => {
-                const result = await client.set(key, value);
-                return result === 'OK' || result === '1';
-            },
-            setex: async (key: string, seconds: number, value: string) => {
-                if (typeof (client as any).setex === 'function') {
-                    const result = await (client as any).setex(key, seconds, value);
-                    return result === 'OK' || result === '1';
-                }
-                const setResult = await client.set(key, value);
-                if (setResult === 'OK' || setResult === '1') {
-                    const expireResult = await client.expire(key, seconds);
-                    return expireResult === 1 || expireResult === true;
-                }
-                return false;
-            },
-            del: async (keyOrKeys: string | string[]) => {
-                const keys = Array.isArray(keyOrKeys) ? keyOrKeys : [keyOrKeys];
-                if (typeof (client as any).del === 'function') {
-                    const result = await (client as any).del(...keys);
-                    return result;
-                }
-                // Fallback for clients without proper del
-                let deleted = 0;
-                for (const key of keys) {
-                    const result = await client.del(key);
-                    deleted += result;
-                }
-                return deleted;
-            },
-            expire: async (key: string, seconds: number) => {
-                const result = await client.expire(key, seconds);
-                return result === 1 || result === true;
-            },
-            ttl: async (key: string) => {
-                if (typeof (client as any).ttl === 'function') {
-                    return (client as any).ttl(key);
-                }
-                return -2;
-            },
-            mget: async (keys: string[]) => {
-                if (typeof (client as any).mget === 'function') {
-                    return (client as any).mget(...keys);
-                }
-                const results: (string | null)[] = [];
-                for (const key of keys) {
-                    results.push(await client.get(key));
-                }
-                return results;
-            },
-            scanIterator: async function* (match: string, count: number): AsyncIterable<string> {
-                if (typeof (client as any).scan === 'function') {
-                    let cursor = '0';
-                    do {
-                        const [nextCursor, keys] = await (client as any).scan(cursor, 'MATCH', match, 'COUNT', count);
-                        for (const key of keys) {
-                            yield key;
-                        }
-                        cursor = nextCursor;
-                    } while (cursor !== '0');
-                } else {
-                    return;
-                }
-            }
-        };
-    } else if (isNodeRedisClient(client)) {
-        return {
-            get: async (key: string) => {
-                return client.get(key);
-            },
-            set: async (key: string, value: string) => {
-                const result = await client.set(key, value);
-                return result === 'OK';
-            },
-            setex: async (key: string, seconds: number, value: string) => {
-                if (typeof (client as any).setEx === 'function') {
-                    const result = await (client as any).setEx(key, seconds, value);
-                    return result === 'OK';
-                }
-                const setResult = await client.set(key, value);
-                if (setResult === 'OK') {
-                    return client.expire(key, seconds) as Promise<boolean>;
-                }
-                return false;
-            },
-            del: async (keyOrKeys: string | string[]) => {
-                return client.del(keyOrKeys);
-            },
-            expire: async (key: string, seconds: number) => {
-                const result = await client.expire(key, seconds);
-                return result === true || result === 1;
-            },
-            ttl: async (key: string) => {
-                if (typeof (client as any).ttl === 'function') {
-                    return (client as any).ttl(key);
-                }
-                return -2;
-            },
-            mget: async (keys: string[]) => {
-                if (typeof (client as any).mGet === 'function') {
-                    return (client as any).mGet(keys);
-                }
-                const results: (string | null)[] = [];
-                for (const key of keys) {
-                    results.push(await client.get(key));
-                }
-                return results;
-            },
-            scanIterator: async function* (match: string, count: number): AsyncIterable<string> {
-                if (typeof (client as any).scanIterator === 'function') {
-                    const iterator = (client as any).scanIterator({ MATCH: match, COUNT: count });
-                    for await (const batch of iterator) {
-                        // node-redis 返回的可能是批次数组
-                        if (Array.isArray(batch)) {
-                            for (const key of batch) {
-                                yield key;
-                            }
-                        } else {
-                            yield batch;
-                        }
-                    }
-                } else {
-                    // Fallback for clients without scanIterator
-                    return;
-                }
-            }
-        };
-    } else {
-        throw new Error('Unsupported Redis client type. Please use redis or ioredis.');
-    }
-}
 export interface RedisSessionStoreOptions<UserData> {
     /**
      * Redis key prefix for sessions
@@ -202,12 +133,35 @@ export interface RedisSessionStoreOptions<UserData> {
      */
     prefix?: string;
 
+    /**
+     * How session keys are named, for Redis Cluster
+     * - 'plain': `<prefix>:<sessionId>`
+     * - 'single-slot': `{<prefix>}:<sessionId>`; all sessions live in one slot, so regenerate
+     *   stays atomic on a cluster, but a single node holds every session
+     * Changing the layout orphans sessions written under the previous one
+     * @default 'plain'
+     */
+    keyLayout?: SessionKeyLayout;
+
+    /**
+     * Resolves the tenant of the current request, e.g. () => tenantCtx.get().id
+     * Session keys become `<prefix>:<namespace>:<sessionId>` and user index keys
+     * `<prefix>-user:<namespace>:<userId>`, so tenants sharing one Redis never see each other's sessions
+     * Called on every operation, so it must run inside the request's farrow container;
+     * admin methods take a namespace option for use outside a request
+     * Namespaces must be non-empty and must not contain ':', '{', '}', '\\' or glob characters
+     */
+    namespace?: () => string;
+
     /**
      * Session expiration time in seconds
      * Set to false to disable expiration in Redis (but session may still expire in cookies)
+     * Pass a function to choose the TTL per session (e.g. "remember me"). It is called with
+     * the session data on create and set, and the result is stored with the session so that
+     * touch, rolling and renew extend the session by its own TTL
      * @default 86400 (24 hours)
      */
-    ttl?: number | false;
+    ttl?: number | false | ((userData: UserData) => number | false);
 
     /**
      * If true, session expiration will be reset on each access
@@ -229,6 +183,21 @@ export interface RedisSessionStoreOptions<UserData> {
      */
     renewBefore?: number;
 
+    /**
+     * Absolute maximum session lifetime in seconds, counted from creation
+     * rolling, renew, touch and set never extend a session past this point,
+     * and once it has passed the session is treated as expired
+     * Sessions created before this option was enabled are timed from their next read
+     * @default undefined (no absolute limit)
+     */
+    absoluteTtl?: number;
+
+    /**
+     * Seconds from now reported as expiresTime for sessions whose Redis key never expires (e.g. ttl: false)
+     * @default 31536000 (1 year)
+     */
+    noExpiry?: number;
+
     /**
      * Custom session ID generator
      * @default () => ulid()
@@ -240,41 +209,587 @@ export interface RedisSessionStoreOptions<UserData> {
      * @default () => ({} as UserData)
      */
     defaultData?: () => UserData;
+
+    /**
+     * Extracts the owning user id from session data.
+     * When provided, every session is also recorded in a per-user Redis set
+     * so that all sessions of a user can be listed or destroyed at once.
+     * Return null/undefined for anonymous sessions.
+     */
+    getUserId?: (userData: UserData) => string | number | null | undefined;
+
+    /**
+     * Redis key prefix for the per-user session index
+     * Only used when getUserId is set
+     * @default `${prefix}-user` ('{<prefix>}-user' with the single-slot layout)
+     */
+    userIndexPrefix?: string;
+
+    /**
+     * Serializer used to write session data
+     * The name of the serializer is stored with each value
+     * @default jsonSerializer
+     */
+    serializer?: SessionSerializer;
+
+    /**
+     * Additional serializers accepted when reading, e.g. a custom one being phased out
+     * The built-in jsonSerializer and richSerializer are always readable
+     * @default []
+     */
+    legacySerializers?: SessionSerializer[];
+
+    /**
+     * Encrypt session payloads at rest with AES-256-GCM
+     * Each value embeds the id of the key that encrypted it, so keys can be rotated
+     * by adding a new key and switching activeKeyId
+     */
+    encryption?: SessionEncryptionOptions;
+
+    /**
+     * Sign every payload with HMAC and verify it on read
+     * Sessions that fail verification are treated as missing
+     */
+    signing?: SessionSigningOptions;
+
+    /**
+     * Called when a stored session fails signature verification
+     * @default logs the error with the logger
+     */
+    onInvalidSignature?: (error: SessionSignatureError) => void;
+
+    /**
+     * Compress payloads above a size threshold with gzip or brotli
+     * Set to true to use the defaults
+     * Compressed values carry a marker, so existing uncompressed sessions stay readable
+     */
+    compression?: SessionCompressionOptions | boolean;
+
+    /**
+     * How sessions are laid out in Redis
+     * - 'string': the whole session is one encoded string value
+     * - 'hash': one hash field per top-level key; set only writes changed or removed fields
+     * Top-level keys starting with "$" are reserved in hash storage
+     * @default 'string'
+     */
+    storage?: 'string' | 'hash';
+
+    /**
+     * Optimistic concurrency control
+     * get records the session revision in the request context and set only writes
+     * if the stored revision still matches. Set to true to reject conflicting writes
+     */
+    concurrency?: SessionConcurrencyOptions<UserData> | boolean;
+
+    /**
+     * Lifecycle hooks (onCreate, onLoad, onSave, onDestroy, onTouch, onRenew, onError)
+     * Hooks are awaited before the store operation returns and run before listeners
+     * added with store.events.on; a hook that throws does not affect the operation
+     */
+    hooks?: SessionLifecycleHooks<UserData>;
+
+    /**
+     * Logger for failures and diagnostics
+     * @default console
+     */
+    logger?: SessionLogger;
+
+    /**
+     * Minimum level passed to the logger; 'silent' disables logging
+     * @default 'warn'
+     */
+    logLevel?: SessionLogLevel;
+
+    /**
+     * What get, set, create, destroy, regenerate and touch do when they fail
+     * - 'swallow': log the error and return undefined
+     * - 'throw': reject with the typed error (SessionStoreConnectionError, SessionDecodeError,
+     *   SessionWriteError, or SessionStoreError for anything else)
+     * - a function: called with the typed error instead of logging; the operation returns
+     *   undefined unless the function throws
+     * The error event is emitted before the policy is applied
+     * @default 'swallow'
+     */
+    onError?: 'swallow' | 'throw' | SessionErrorHandler;
+
+    /**
+     * Metrics and tracing: operation counters, Redis command latency and payload sizes
+     * Accepts OpenTelemetry's Meter and Tracer, or the recorder from createMetricsRecorder
+     */
+    telemetry?: SessionTelemetryOptions;
+
+    /**
+     * In-process LRU cache in front of get
+     * set, destroy and regenerate broadcast invalidations to other instances over Redis pub/sub
+     * Set to true to use the defaults; call store.close() on shutdown
+     */
+    cache?: SessionCacheOptions | boolean;
+
+    /**
+     * Per-command timeouts, retries for idempotent commands and a circuit breaker around Redis
+     * Set to true to use the defaults; the breaker is exposed as store.circuit
+     */
+    resilience?: RedisResilienceOptions | boolean;
+
+    /**
+     * Client connected to a read replica
+     * get, getSessionById, listSessions and countSessions read from it; every write, TTL change
+     * and the reads they depend on go to the main client. Once a request has created, saved,
+     * regenerated or touched a session, its later reads also go to the main client
+     * Gets its own circuit breaker when resilience is set; store.circuit is the main client's
+     */
+    readClient?: IoRedisLike | NodeRedisLike | RedisLikeClient | NormalizedRedisClient;
+
+    /**
+     * Versioned session data: every payload is stamped with schema.version, older payloads
+     * are upgraded by schema.migrations on read and written back, and schema.validate
+     * checks the result. Data that fails is handled by schema.onInvalid
+     */
+    schema?: SessionSchemaOptions<UserData>;
+}
+
+export type SessionErrorHandler = (error: SessionStoreError, operation: SessionOperation) => void | Promise<void>;
+
+export interface SessionConflictInfo {
+    sessionId: string;
+    /**
+     * 1-based merge attempt
+     */
+    attempt: number;
+}
+
+export interface SessionConcurrencyOptions<UserData> {
+    /**
+     * What set does when the session was modified since it was read
+     * - 'reject': keep the stored data, set returns false
+     * - 'merge': reload the session, combine both versions with merge and retry
+     * - 'last-write-wins': overwrite the stored data
+     * @default 'reject'
+     */
+    onConflict?: 'reject' | 'merge' | 'last-write-wins';
+
+    /**
+     * Combines the data being saved with the data currently stored
+     * Required when onConflict is 'merge'
+     */
+    merge?: (local: UserData, remote: UserData, info: SessionConflictInfo) => UserData | Promise<UserData>;
+
+    /**
+     * Maximum number of merge attempts before set returns false
+     * @default 3
+     */
+    maxRetries?: number;
+}
+
+export interface SessionRecord<UserData> {
+    sessionId: string;
+    data: UserData;
+    /**
+     * Remaining lifetime in seconds, or false if the key does not expire
+     */
+    ttl: number | false;
+}
+
+export interface SessionScopeOptions {
+    /**
+     * Namespace to operate on instead of the one resolved for the current request
+     * Requires the namespace option; needed outside a request when that option is set
+     */
+    namespace?: string;
+}
+
+export interface ListSessionsOptions extends SessionScopeOptions {
+    /**
+     * Maximum number of sessions to return
+     * @default Infinity
+     */
+    limit?: number;
+
+    /**
+     * SCAN COUNT hint and MGET batch size
+     * @default 100
+     */
+    batchSize?: number;
 }
 
-// 类型守卫函数
-function isNormalizedRedisClient(client: any): client is NormalizedRedisClient {
-    return (
-        'setex' in client && 
-        'ttl' in client && 
-        'mget' in client &&
-        typeof client.setex === 'function' &&
-        typeof client.ttl === 'function' &&
-        typeof client.mget === 'function'
-    );
+export interface PurgeSessionsOptions extends SessionScopeOptions {
+    /**
+     * SCAN COUNT hint, and the number of sessions read and deleted per batch
+     * @default 100
+     */
+    batchSize?: number;
+
+    /**
+     * Evaluate the predicate and report the matches without deleting anything
+     * @default false
+     */
+    dryRun?: boolean;
+
+    /**
+     * Delete with UNLINK instead of DEL so Redis reclaims memory in a background thread
+     * @default true
+     */
+    unlink?: boolean;
+}
+
+export interface SessionPurgeCandidate<UserData> extends SessionRecord<UserData> {
+    /**
+     * Creation time in milliseconds as stored with the session
+     * Only recorded when the absoluteTtl option is set; undefined for sessions written without it
+     */
+    createdAt?: number;
+}
+
+export interface PurgeSessionsReport {
+    /**
+     * Sessions read under the prefix
+     */
+    scanned: number;
+    /**
+     * Sessions the predicate returned true for
+     */
+    matched: number;
+    /**
+     * Sessions deleted, always 0 in a dry run
+     */
+    deleted: number;
+    /**
+     * Sessions that could not be decoded or failed validation; they are left in place
+     */
+    skipped: number;
+    dryRun: boolean;
+}
+
+export interface RedisSessionStore<UserData> extends SessionStore<UserData, string> {
+    /**
+     * List the ids of all live sessions belonging to a user.
+     * Index entries whose session has expired or changed owner are pruned.
+     * Requires the getUserId option.
+     */
+    listUserSessions(userId: string | number, options?: SessionScopeOptions): Promise<string[]>;
+
+    /**
+     * Destroy every session belonging to a user ("log out everywhere").
+     * Requires the getUserId option.
+     * @returns number of sessions destroyed
+     */
+    destroyUserSessions(userId: string | number, options?: SessionScopeOptions): Promise<number>;
+
+    /**
+     * Page through all sessions under the prefix with SCAN and load them with MGET.
+     * Entries that cannot be parsed are skipped.
+     */
+    listSessions(options?: ListSessionsOptions): Promise<SessionRecord<UserData>[]>;
+
+    /**
+     * Load a single session by id without touching the request context
+     * or extending its expiration.
+     */
+    getSessionById(sessionId: string, options?: SessionScopeOptions): Promise<SessionRecord<UserData> | null>;
+
+    /**
+     * Count the sessions currently stored under the prefix.
+     */
+    countSessions(options?: Pick<ListSessionsOptions, 'batchSize' | 'namespace'>): Promise<number>;
+
+    /**
+     * Destroy a session by id, also removing it from the per-user index.
+     */
+    destroySessionById(sessionId: string, options?: SessionScopeOptions): Promise<boolean>;
+
+    /**
+     * Stream every session under the prefix and delete those matching the predicate,
+     * with one DEL or UNLINK per batch. Sessions that cannot be decoded are skipped.
+     */
+    purgeSessions(
+        predicate: (session: SessionPurgeCandidate<UserData>) => boolean | Promise<boolean>,
+        options?: PurgeSessionsOptions
+    ): Promise<PurgeSessionsReport>;
+
+    /**
+     * Move the current session to a freshly generated id, keeping its data and
+     * remaining TTL, to defeat session fixation (e.g. right after login).
+     * The old id stops working and the session context is updated so the
+     * parser emits the new id.
+     */
+    regenerate(): Promise<boolean | undefined>;
+
+    /**
+     * Write a session under an id issued elsewhere, with metadata as create records it,
+     * e.g. a session created in the secondary of createFallbackSessionStore during an outage.
+     * Returns false when the session has already outlived absoluteTtl.
+     * @param createdAt creation time in milliseconds, recorded when absoluteTtl is set
+     * @default createdAt now
+     */
+    restore(sessionId: string, userData: UserData, createdAt?: number): Promise<boolean | undefined>;
+
+    /**
+     * Typed emitter for lifecycle events (create, load, save, destroy, touch, renew, error).
+     */
+    readonly events: SessionEventEmitter<UserData>;
+
+    /**
+     * Release connections held by the store, such as the cache invalidation subscriber
+     */
+    close(): Promise<void>;
+
+    /**
+     * Circuit breaker state when the resilience option is set
+     */
+    readonly circuit?: CircuitBreaker;
+
+    /**
+     * Encodes and decodes sessions the way this store stores them, e.g. for migrateSessions
+     */
+    readonly codec: SessionCodec<UserData>;
+}
+
+
+// 哈希存储中标记会话存在的保留字段，保证空会话也对应一个存在的 key
+const HASH_META_FIELD = '$meta';
+
+// 版本化模式下哈希存储记录版本号的保留字段，不参与签名和加密
+const HASH_REVISION_FIELD = '$rev';
+
+const isReservedField = (field: string) => field.startsWith('$');
+
+// 未启用并发控制时，签名的哈希会话因并发写入冲突而重新应用修改的次数
+const SIGNED_HASH_RETRIES = 3;
+
+// 版本化写入脚本：版本号一致（或未指定期望版本）时写入并返回新版本号，否则返回 -1
+// KEYS[1]: 会话 key；ARGV: 期望版本, TTL, 数据
+const VERSIONED_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local revision = 0
+if current then
+    revision = tonumber(string.match(current, '^%$rev:(%d+)%$')) or 0
+end
+if ARGV[1] ~= '' and tonumber(ARGV[1]) ~= revision then
+    return -1
+end
+revision = revision + 1
+local value = '$rev:' .. revision .. '$' .. ARGV[3]
+if ARGV[2] ~= '' then
+    redis.call('SET', KEYS[1], value, 'EX', ARGV[2])
+else
+    redis.call('SET', KEYS[1], value)
+end
+return revision
+`;
+
+// KEYS[1]: 会话 key；ARGV: 期望版本, TTL, 写入字段数 n, n 组字段/值, 需要删除的字段...
+const VERSIONED_HSET_SCRIPT = `
+local revision = tonumber(redis.call('HGET', KEYS[1], '${HASH_REVISION_FIELD}')) or 0
+if ARGV[1] ~= '' and tonumber(ARGV[1]) ~= revision then
+    return -1
+end
+if ARGV[1] == '' then
+    -- 未指定期望版本时整体覆盖，不保留其他写入者新增的字段
+    redis.call('DEL', KEYS[1])
+end
+revision = revision + 1
+local count = tonumber(ARGV[3])
+local fields = { '${HASH_REVISION_FIELD}', tostring(revision) }
+for i = 4, 3 + count * 2 do
+    fields[#fields + 1] = ARGV[i]
+end
+redis.call('HSET', KEYS[1], unpack(fields))
+if #ARGV > 3 + count * 2 then
+    redis.call('HDEL', KEYS[1], unpack(ARGV, 4 + count * 2))
+end
+if ARGV[2] ~= '' then
+    redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return revision
+`;
+
+// 补写创建时间：会话在读取之后未被修改时，只替换元数据，保留原有的 TTL 和版本号
+// KEYS[1]: 会话 key；ARGV: 读取到的原值, 新值
+const STAMP_CREATED_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+    return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'KEEPTTL')
+return 1
+`;
+
+// KEYS[1]: 会话 key；ARGV: 读取到的 $meta 原值（不存在时为空串）, 新的 $meta
+const STAMP_CREATED_HASH_SCRIPT = `
+if (redis.call('HGET', KEYS[1], '${HASH_META_FIELD}') or '') ~= ARGV[1] then
+    return 0
+end
+redis.call('HSET', KEYS[1], '${HASH_META_FIELD}', ARGV[2])
+return 1
+`;
+
+type StoredSession = StoredSessionPayload;
+
+const getPayloadSize = (stored: StoredSession) => typeof stored === 'string'
+    ? Buffer.byteLength(stored)
+    : Object.values(stored).reduce((size, value) => size + Buffer.byteLength(value), 0);
+
+const writeRecordMeta = (meta: SessionRecordMeta, serialized: string) => {
+    let payload = serialized;
+    if (meta.version !== undefined) {
+        payload = writeTag('ver', payload, String(meta.version));
+    }
+    if (meta.ttl !== undefined) {
+        payload = writeTag('ttl', payload, meta.ttl === false ? 'none' : String(meta.ttl));
+    }
+    if (meta.createdAt !== undefined) {
+        payload = writeTag('born', payload, String(meta.createdAt));
+    }
+    return payload;
+};
+
+const readRecordMeta = (payload: string): { meta: SessionRecordMeta; serialized: string } => {
+    const meta: SessionRecordMeta = {};
+    let rest = payload;
+    const born = readTag(rest, 'born');
+    if (born) {
+        meta.createdAt = Number(born.param) || undefined;
+        rest = born.rest;
+    }
+    const ttl = readTag(rest, 'ttl');
+    if (ttl) {
+        meta.ttl = ttl.param === 'none' ? false : Number(ttl.param) || undefined;
+        rest = ttl.rest;
+    }
+    const version = readTag(rest, 'ver');
+    if (version) {
+        meta.version = Number(version.param) || 0;
+        rest = version.rest;
+    }
+    return { meta, serialized: rest };
+};
+
+// 启用签名时 $meta 还记录各字段内容的摘要（字段清单），逐字段的签名无法发现字段被删除或被替换为旧的合法值
+const digestField = (serialized: string) => createHash('sha256').update(serialized).digest('base64url').slice(0, 22);
+
+const parseHashMeta = (serialized: string): { meta: SessionRecordMeta; manifest?: Record<string, string> } => {
+    const parsed = JSON.parse(serialized) as Record<string, unknown> | null;
+    const manifest = parsed?.fields;
+    return {
+        meta: {
+            createdAt: typeof parsed?.createdAt === 'number' ? parsed.createdAt : undefined,
+            ttl: typeof parsed?.ttl === 'number' || parsed?.ttl === false ? parsed.ttl : undefined,
+            version: typeof parsed?.version === 'number' ? parsed.version : undefined
+        },
+        manifest: manifest !== null && typeof manifest === 'object' ? manifest as Record<string, string> : undefined
+    };
+};
+
+const DEFAULT_TTL = 86400;
+
+const FAILURE_MESSAGES: Record<SessionOperation, string> = {
+    get: 'Failed to load session:',
+    set: 'Failed to save session:',
+    create: 'Failed to create session:',
+    destroy: 'Failed to destroy session:',
+    regenerate: 'Failed to regenerate session:',
+    touch: 'Failed to touch session:'
+};
+
+// 将会话登记到用户索引并延长索引的过期时间，只延长不缩短，保证索引不早于其中任何会话过期
+// KEYS[1]: 索引 key；ARGV[1]: 会话 ID（为空时只刷新过期时间），ARGV[2]: 会话 TTL（为空表示不过期）
+const INDEX_SESSION_SCRIPT = `
+local existed = redis.call('EXISTS', KEYS[1]) == 1
+if ARGV[1] ~= '' then
+    redis.call('SADD', KEYS[1], ARGV[1])
+elseif not existed then
+    return 0
+end
+if ARGV[2] == '' then
+    redis.call('PERSIST', KEYS[1])
+    return 1
+end
+local ttl = redis.call('TTL', KEYS[1])
+if not existed or (ttl >= 0 and ttl < tonumber(ARGV[2])) then
+    redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 1
+`;
+
+// 会话迁移脚本：将旧 key 的数据及剩余 TTL 原子地移动到新 key
+// KEYS: 旧 key, 新 key；ARGV[1]: 'rename' 直接重命名，'string'/'hash' 写入重新编码的数据 ARGV[2..]
+// 返回 1 成功，0 旧会话不存在，-1 新 key 已存在
+const REGENERATE_SCRIPT = `
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl == -2 then
+    return 0
+end
+if redis.call('EXISTS', KEYS[2]) == 1 then
+    return -1
+end
+if ARGV[1] == 'rename' then
+    redis.call('RENAME', KEYS[1], KEYS[2])
+    return 1
+end
+if ARGV[1] == 'string' then
+    redis.call('SET', KEYS[2], ARGV[2])
+else
+    redis.call('HSET', KEYS[2], unpack(ARGV, 2))
+end
+if ttl > 0 then
+    redis.call('PEXPIRE', KEYS[2], ttl)
+end
+redis.call('DEL', KEYS[1])
+return 1
+`;
+
+// 集群中新旧会话 key 位于不同的槽时无法使用 REGENERATE_SCRIPT，改为先写入新 key 再删除旧 key
+// KEYS[1]: 新 key；ARGV[1]: 剩余毫秒数（小于 0 表示不过期），ARGV[2]: 'string'/'hash'，ARGV[3..]: 数据
+// 返回 1 成功，-1 新 key 已存在
+const COPY_SESSION_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+    return -1
+end
+if ARGV[2] == 'string' then
+    redis.call('SET', KEYS[1], ARGV[3])
+else
+    redis.call('HSET', KEYS[1], unpack(ARGV, 3))
+end
+if tonumber(ARGV[1]) > 0 then
+    redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return 1
+`;
+
+// 管理类接口可能在请求作用域之外调用，此时没有可读取的会话上下文
+function readSessionMeta() {
+    try {
+        return sessionMetaDataCtx.get();
+    } catch {
+        return undefined;
+    }
 }
 
 // 函数重载：为不同的Redis客户端提供类型安全的重载
 export function createRedisSessionStore<UserData = any>(
     client: IoRedisLike,
     options?: RedisSessionStoreOptions<UserData>
-): SessionStore<UserData, string>;
+): RedisSessionStore<UserData>;
 
 export function createRedisSessionStore<UserData = any>(
     client: NodeRedisLike,
     options?: RedisSessionStoreOptions<UserData>
-): SessionStore<UserData, string>;
+): RedisSessionStore<UserData>;
+
+export function createRedisSessionStore<UserData = any>(
+    client: IoRedisClusterLike | NodeRedisClusterLike,
+    options?: RedisSessionStoreOptions<UserData>
+): RedisSessionStore<UserData>;
 
 export function createRedisSessionStore<UserData = any>(
     client: RedisLikeClient,
     options?: RedisSessionStoreOptions<UserData>
-): SessionStore<UserData, string>;
+): RedisSessionStore<UserData>;
 
 // 实现函数
 export function createRedisSessionStore<UserData = any>(
     client: any, // 接受any类型，在内部进行类型检查和转换
     options: RedisSessionStoreOptions<UserData> = {}
-): SessionStore<UserData, string> {
+): RedisSessionStore<UserData> {
     // 验证客户端是否具备基本的Redis接口
     if (!client || typeof client !== 'object') {
         throw new Error('Redis client is required');
@@ -288,122 +803,1092 @@ export function createRedisSessionStore<UserData = any>(
     }
     
     // 使用类型守卫检查客户端类型
-    const normalizedClient = isNormalizedRedisClient(client)
-        ? client
-        : createNormalizedRedisClient(client);
+    const normalize = (redisClient: any): NormalizedRedisClient => isNormalizedRedisClient(redisClient)
+        ? redisClient
+        : createNormalizedRedisClient(redisClient);
+    const baseClient = normalize(client);
 
     const config = {
         prefix: 'session',
-        ttl: 86400,
+        ttl: DEFAULT_TTL,
         rolling: false,
         renew: false,
         renewBefore: 600,
+        noExpiry: 365 * 24 * 60 * 60, // 1 year
         genSessionId: () => ulid(),
         defaultData: () => ({} as UserData),
         ...options
     };
 
-    const getKey = (sessionId: string) => `${config.prefix}:${sessionId}`;
+    if (config.absoluteTtl !== undefined && !(config.absoluteTtl > 0)) {
+        throw new Error('The absoluteTtl option must be a positive number of seconds');
+    }
 
-    const store: SessionStore<UserData, string> = {
-        async get(sessionId: string): Promise<UserData | null | undefined> {
-            if (!sessionId) {
-                return null;
-            }
+    const schema = config.schema;
+    if (schema && !(Number.isInteger(schema.version) && schema.version >= 0)) {
+        throw new Error('The schema version must be a non-negative integer');
+    }
+    const invalidPolicy = schema?.onInvalid ?? 'miss';
 
-            const key = getKey(sessionId);
-            const data = await normalizedClient.get(key);
-            
-            if (!data) {
-                return null;
+    // 埋点位于重试之内，每次实际发出的命令都单独计时
+    const instrument = (redisClient: NormalizedRedisClient) => config.telemetry
+        ? instrumentRedisClient(redisClient, config.telemetry)
+        : redisClient;
+    const protect = (redisClient: NormalizedRedisClient) => config.resilience
+        ? createResilientRedisClient(instrument(redisClient), config.resilience === true ? {} : config.resilience)
+        : undefined;
+    const resilientClient = protect(baseClient);
+    const normalizedClient = resilientClient ?? instrument(baseClient);
+    // 只读副本使用独立的熔断器，副本故障不会阻止写入
+    const replicaClient = config.readClient ? normalize(config.readClient) : undefined;
+    const readClient = replicaClient ? protect(replicaClient) ?? instrument(replicaClient) : normalizedClient;
+    const instruments = createSessionInstruments(config.telemetry);
+
+    const defaultKeyspace = createSessionKeyspace(config.prefix, config.keyLayout, config.userIndexPrefix);
+
+    // 未显式指定命名空间时，在当前请求的上下文中调用 namespace 解析函数
+    // 命名空间会出现在 SCAN 的 MATCH 模式中，不允许包含分隔符和通配符，以免匹配到其他租户的 key
+    const resolveKeyspace = (namespace?: string): SessionKeyspace => {
+        if (!config.namespace) {
+            if (namespace !== undefined) {
+                throw new Error('The namespace option is required to scope operations to a namespace');
             }
+            return defaultKeyspace;
+        }
+        const resolved = namespace ?? config.namespace();
+        if (typeof resolved !== 'string' || !/^[^:{}*?[\]\\]+$/.test(resolved)) {
+            throw new Error(`Invalid session namespace: ${resolved}`);
+        }
+        // 命名空间放在固定的索引前缀之后：`<prefix>:<ns>-user` 会落入名为 `<ns>-user` 的租户的 key 空间
+        // single-slot 下默认索引前缀 `{<prefix>:<ns>}-user` 以哈希标签结尾，不会与其他租户重叠，且与会话位于同一个槽
+        const indexPrefix = config.userIndexPrefix ?? (config.keyLayout === 'single-slot' ? undefined : `${config.prefix}-user`);
+        return createSessionKeyspace(
+            `${config.prefix}:${resolved}`,
+            config.keyLayout,
+            indexPrefix === undefined ? undefined : `${indexPrefix}:${resolved}`
+        );
+    };
 
-            try {
-                const userData = JSON.parse(data) as UserData;
+    const getKey = (sessionId: string) => resolveKeyspace().sessionKey(sessionId);
+    const getUserIndexKey = (userId: string | number) => resolveKeyspace().userIndexKey(userId);
 
-                // Update session metadata in context
-                const expiresTime = config.ttl !== false 
-                    ? Date.now() + (config.ttl * 1000)
-                    : Date.now() + (365 * 24 * 60 * 60 * 1000); // 1 year if no TTL
-                
-                sessionMetaDataCtx.set({
-                    sessionId,
-                    expiresTime
-                });
+    // 新旧会话 key 可能位于不同的槽，regenerate 不能在一个脚本中完成
+    const crossSlotRegenerate = normalizedClient.cluster === true && config.keyLayout !== 'single-slot';
 
-                // Handle rolling and renew strategies
-                if (config.rolling && config.ttl !== false) {
-                    await normalizedClient.expire(key, config.ttl);
-                } else if (config.renew && config.ttl !== false) {
-                    const ttl = await normalizedClient.ttl(key);
-                    if (ttl > 0 && ttl < config.renewBefore) {
-                        await normalizedClient.expire(key, config.ttl);
-                    }
-                }
+    const resolveUserId = (userData: UserData): string | undefined => {
+        if (!config.getUserId || userData === null || userData === undefined) {
+            return undefined;
+        }
+        const userId = config.getUserId(userData);
+        return userId === null || userId === undefined || userId === '' ? undefined : String(userId);
+    };
 
-                return userData;
-            } catch (error) {
-                console.error('Failed to parse session data:', error);
-                return undefined;
-            }
-        },
+    const assertUserIndex = () => {
+        if (!config.getUserId) {
+            throw new Error('The getUserId option is required to query sessions by user');
+        }
+    };
 
-        async set(userData: UserData): Promise<boolean | undefined> {
-            const sessionMeta = sessionMetaDataCtx.get();
+    // 将会话登记到用户索引中，并让索引的过期时间不短于会话本身
+    const indexSession = async (sessionId: string, userData: UserData, ttl: number | false) => {
+        const userId = resolveUserId(userData);
+        if (userId === undefined) {
+            return;
+        }
+        await normalizedClient.eval(INDEX_SESSION_SCRIPT, [getUserIndexKey(userId)], [sessionId, ttl === false ? '' : String(ttl)]);
+    };
+
+    const refreshUserIndex = async (userData: UserData, ttl: number | false) => {
+        const userId = resolveUserId(userData);
+        if (userId === undefined) {
+            return;
+        }
+        await normalizedClient.eval(INDEX_SESSION_SCRIPT, [getUserIndexKey(userId)], ['', ttl === false ? '' : String(ttl)]);
+    };
+
+    // 动态 TTL 根据会话数据计算
+    const evaluateTtl = (userData: UserData): number | false | undefined => {
+        if (typeof config.ttl !== 'function') {
+            return undefined;
+        }
+        const ttl = config.ttl(userData);
+        if (ttl !== false && !(typeof ttl === 'number' && ttl > 0)) {
+            throw new Error('The ttl function must return a positive number of seconds or false');
+        }
+        return ttl;
+    };
+
+    // 记录所有可读取的序列化器，便于在切换序列化器期间读取旧数据
+    const serializer = config.serializer ?? jsonSerializer;
+    const builtInSerializers = [jsonSerializer, richSerializer];
+    const serializers = new Map(builtInSerializers.map((item): [string, SessionSerializer] => [item.name, item]));
+    for (const item of [...(config.legacySerializers ?? []), serializer]) {
+        if (builtInSerializers.includes(item)) {
+            continue;
+        }
+        if (!/^[\w.-]+$/.test(item.name)) {
+            throw new Error(`Invalid serializer name: ${item.name}`);
+        }
+        // 未标记的数据总是按内置 JSON 读取，自定义序列化器占用内置名称会导致数据无法正确还原
+        if (builtInSerializers.some((builtIn) => builtIn.name === item.name)) {
+            throw new Error(`Serializer name "${item.name}" is reserved for a built-in serializer`);
+        }
+        serializers.set(item.name, item);
+    }
+
+    const encryptor = config.encryption ? createSessionEncryptor(config.encryption) : undefined;
+    const signer = config.signing ? createSessionSigner(config.signing) : undefined;
+    const compression = config.compression === true ? {} : config.compression || undefined;
+
+    const logger = createLevelLogger(config.logger ?? console, config.logLevel ?? 'warn');
+
+    const events = createSessionEventEmitter<UserData>(config.hooks, (error, event) => {
+        logger.error(`Session ${event} hook failed:`, error);
+    });
+
+    const reportInvalidSignature = config.onInvalidSignature ?? ((error: SessionSignatureError) => {
+        logger.error('Session signature verification failed:', error);
+    });
+
+    const cacheOptions = config.cache === true ? {} : config.cache || undefined;
+    const cache = cacheOptions ? createSessionCache<StoredSession>(cacheOptions) : undefined;
+    const invalidationChannel = cacheOptions?.channel ?? `${config.prefix}:invalidate`;
+
+    // 订阅失败时其他实例的写入无法及时生效，但缓存条目最多保留 maxAge 秒
+    const invalidationSubscription = cache
+        ? normalizedClient.subscribe(invalidationChannel, (key) => cache.delete(key)).catch((error) => {
+            logger.error('Failed to subscribe to session cache invalidations:', error);
+            return undefined;
+        })
+        : undefined;
+
+    // 清除本地缓存并通知其他实例
+    const invalidate = async (keys: string[]) => {
+        if (!cache) {
+            return;
+        }
+        for (const key of keys) {
+            cache.delete(key);
+            await normalizedClient.publish(invalidationChannel, key);
+        }
+    };
+
+    // 按 onError 策略处理失败的操作，error 事件总是先于策略触发
+    const handleFailure = async (operation: SessionOperation, sessionId: string | undefined, error: unknown): Promise<undefined> => {
+        const storeError = toSessionStoreError(operation, sessionId, error);
+        instruments.count(operation, storeError instanceof SessionDecodeError ? 'corrupt' : 'error');
+        await events.emit('error', { operation, sessionId, error: storeError });
+        if (config.onError === 'throw') {
+            throw storeError;
+        }
+        if (typeof config.onError === 'function') {
+            await config.onError(storeError, operation);
+            return undefined;
+        }
+        logger.error(FAILURE_MESSAGES[operation], storeError);
+        return undefined;
+    };
+
+    // 单个值的编码流程：序列化 -> 压缩 -> 加密 -> 签名；读取时按相反顺序还原
+    // json 序列化器不写入标记，保持与旧版本数据格式一致
+    const serializeValue = (sessionId: string, value: unknown): string | undefined => {
+        let body: string | undefined;
+        try {
+            body = serializer.encode(value) as string | undefined;
+        } catch (error) {
+            throw new SessionWriteError(`Session data cannot be serialized with ${serializer.name}`, sessionId, error);
+        }
+        if (typeof body !== 'string') {
+            return undefined; // 例如 JSON 序列化 undefined
+        }
+        return serializer.name === jsonSerializer.name ? body : writeTag('codec', body, serializer.name);
+    };
+
+    const deserializeValue = (serialized: string): unknown => {
+        const tag = readTag(serialized, 'codec');
+        if (!tag) {
+            return jsonSerializer.decode(serialized);
+        }
+        const reader = serializers.get(tag.param ?? '');
+        if (!reader) {
+            throw new Error(`Unknown session serializer: ${tag.param}`);
+        }
+        return reader.decode(tag.rest);
+    };
+
+    // 签名和加密的绑定范围：字符串存储为会话 ID，哈希存储为会话 ID 加字段名，防止会话或字段间互换
+    const getPayloadScope = (sessionId: string, field?: string) =>
+        field === undefined ? sessionId : `${sessionId}#${field}`;
+
+    const sealPayload = (sessionId: string, serialized: string, field?: string) => {
+        const scope = getPayloadScope(sessionId, field);
+        const compressed = compression ? compressPayload(serialized, compression) : serialized;
+        const encrypted = encryptor ? encryptor.encrypt(scope, compressed) : compressed;
+        return signer ? signer.sign(scope, encrypted) : encrypted;
+    };
+
+    // allowPlaintext 时未加密的旧数据会原样通过，下次保存时再以当前密钥加密
+    // current 表示数据已使用当前密钥签名和加密，否则需要重新封装后才能从密钥环中移除旧密钥
+    const unsealPayload = (sessionId: string, stored: string, field?: string) => {
+        const scope = getPayloadScope(sessionId, field);
+        let verified = stored;
+        let current = true;
+        if (signer) {
+            const result = signer.verify(scope, stored);
+            if (!result.valid) {
+                throw new SessionSignatureError(sessionId, result.reason);
+            }
+            verified = result.payload;
+            current = signer.usesActiveKey(stored);
+        }
+        if (encryptor) {
+            current = current && encryptor.usesActiveKey(verified);
+        }
+        const decrypted = encryptor ? encryptor.decrypt(scope, verified) : verified;
+        // 无论是否开启压缩都尝试解压，关闭压缩后旧数据依然可读
+        return { serialized: decompressPayload(decrypted), current };
+    };
+
+    const openPayload = (sessionId: string, stored: string, field?: string) => unsealPayload(sessionId, stored, field).serialized;
+
+    const useHash = config.storage === 'hash';
+
+    // 签名的哈希会话依赖 $meta 中的字段清单，清单必须与整个哈希一致，因此总是按版本写入
+    const signedHash = useHash && signer !== undefined;
+
+    // 哈希存储下记录本次请求读取到的各字段序列化结果，set 时据此计算差异
+    const hashSnapshotCtx = createContext<{ sessionId: string; fields: Record<string, string> } | undefined>(undefined);
+
+    const concurrency = config.concurrency === true ? {} : config.concurrency || undefined;
+    if (concurrency?.onConflict === 'merge' && !concurrency.merge) {
+        throw new Error('The merge option is required when onConflict is "merge"');
+    }
+
+    // 版本化模式下记录本次请求读取到的会话版本，set 时据此检测并发修改
+    const revisionCtx = createContext<{ sessionId: string; revision: number } | undefined>(undefined);
+
+    // 记录本次请求读取或创建的会话元数据，set 时原样写回
+    const recordMetaCtx = createContext<{ sessionId: string; meta: SessionRecordMeta } | undefined>(undefined);
+
+    // 本次请求写入过会话后，后续读取改用主节点，避免副本复制延迟读到旧数据
+    const pinnedToPrimaryCtx = createContext(false);
+
+    // 补全旧会话缺少的元数据：启用绝对生命周期之前创建的会话从首次读取时开始计时，
+    // 启用动态 TTL 之前创建的会话按当前数据计算 TTL
+    const completeMeta = (meta: SessionRecordMeta, userData: UserData): SessionRecordMeta => {
+        const completed = { ...meta };
+        if (config.absoluteTtl !== undefined && completed.createdAt === undefined) {
+            completed.createdAt = Date.now();
+        }
+        if (completed.ttl === undefined) {
+            completed.ttl = evaluateTtl(userData);
+        }
+        return completed;
+    };
+
+    // 会话自身的空闲 TTL，优先使用随会话保存的值
+    const getSessionTtl = (meta: SessionRecordMeta): number | false => {
+        if (meta.ttl !== undefined) {
+            return meta.ttl;
+        }
+        return typeof config.ttl === 'function' ? DEFAULT_TTL : config.ttl;
+    };
+
+    // 绝对生命周期的剩余秒数，未启用时为 undefined
+    const getRemainingLifetime = (meta: SessionRecordMeta): number | undefined => {
+        if (config.absoluteTtl === undefined || meta.createdAt === undefined) {
+            return undefined;
+        }
+        return Math.ceil((meta.createdAt + config.absoluteTtl * 1000 - Date.now()) / 1000);
+    };
+
+    const isLifetimeExceeded = (meta: SessionRecordMeta) => {
+        const remaining = getRemainingLifetime(meta);
+        return remaining !== undefined && remaining <= 0;
+    };
+
+    // 会话实际使用的 TTL：空闲 TTL 与绝对生命周期剩余时间中的较小者
+    const resolveTtl = (meta: SessionRecordMeta): number | false => {
+        const ttl = getSessionTtl(meta);
+        const remaining = getRemainingLifetime(meta);
+        if (remaining === undefined) {
+            return ttl;
+        }
+        return Math.max(ttl === false ? remaining : Math.min(ttl, remaining), 1);
+    };
+
+    // 不过期的会话按 noExpiry 选项报告过期时间
+    const toExpiresTime = (ttl: number | false) => {
+        if (ttl !== false) {
+            return Date.now() + (ttl * 1000);
+        }
+        return Date.now() + (config.noExpiry * 1000);
+    };
+
+    // 字段集合及各字段内容必须与签名的清单一致；allowUnsigned 时接受没有清单的旧会话
+    const verifyHashManifest = (sessionId: string, manifest: Record<string, string> | undefined, digests: Record<string, string>) => {
+        if (!manifest) {
+            if (!config.signing!.allowUnsigned) {
+                throw new SessionSignatureError(sessionId, 'Session fields are not covered by a signed manifest');
+            }
+            return;
+        }
+        const fields = Object.keys(digests);
+        if (fields.length !== Object.keys(manifest).length || fields.some((field) => manifest[field] !== digests[field])) {
+            throw new SessionSignatureError(sessionId, 'Session fields do not match the signed manifest');
+        }
+    };
+
+    // 版本号位于最外层，不参与签名，篡改只会导致写入冲突
+    const decodeStoredPayload = (sessionId: string, stored: StoredSession) => {
+        if (typeof stored === 'string') {
+            const revisionTag = readTag(stored, 'rev');
+            const { meta, serialized } = readRecordMeta(openPayload(sessionId, revisionTag ? revisionTag.rest : stored));
+            const data = deserializeValue(serialized) as UserData;
+            return {
+                data,
+                fields: undefined,
+                revision: revisionTag ? Number(revisionTag.param) || 0 : 0,
+                meta: completeMeta(meta, data),
+                recordedMeta: meta
+            };
+        }
+
+        const data: Record<string, unknown> = {};
+        const fields: Record<string, string> = {};
+        const digests: Record<string, string> = {};
+        let meta: SessionRecordMeta = {};
+        let manifest: Record<string, string> | undefined;
+        for (const [field, value] of Object.entries(stored)) {
+            if (field === HASH_REVISION_FIELD) {
+                continue;
+            }
+            const { serialized, current } = unsealPayload(sessionId, value, field);
+            if (field === HASH_META_FIELD) {
+                ({ meta, manifest } = parseHashMeta(serialized));
+                continue;
+            }
+            if (isReservedField(field)) {
+                continue;
+            }
+            // 使用旧密钥封装的字段记为空串，使其在下次保存时被视为已变化而重新封装
+            fields[field] = current ? serialized : '';
+            digests[field] = digestField(serialized);
+            data[field] = deserializeValue(serialized);
+        }
+        if (signer) {
+            verifyHashManifest(sessionId, manifest, digests);
+        }
+        return {
+            data: data as UserData,
+            fields,
+            revision: Number(stored[HASH_REVISION_FIELD]) || 0,
+            meta: completeMeta(meta, data as UserData),
+            recordedMeta: meta
+        };
+    };
+
+    // 签名错误保持原样，由调用方按无效签名处理
+    const decodeStored = (sessionId: string, stored: StoredSession) => {
+        instruments.payload('read', getPayloadSize(stored));
+        try {
+            return decodeStoredPayload(sessionId, stored);
+        } catch (error) {
+            if (error instanceof SessionSignatureError || error instanceof SessionStoreError) {
+                throw error;
+            }
+            throw new SessionDecodeError(`Stored session cannot be decoded: ${error instanceof Error ? error.message : String(error)}`, sessionId, error);
+        }
+    };
+
+    const decodeSession = (sessionId: string, stored: StoredSession) => decodeStored(sessionId, stored).data;
+
+    // 执行版本迁移和校验；未启用 schema 时原样返回
+    const upgradeSession = (sessionId: string, data: UserData, meta: SessionRecordMeta) => schema
+        ? upgradeSessionData(schema, sessionId, data, meta.version ?? 0)
+        : { data, migrated: false };
+
+    // 管理类读取返回迁移后的数据，但不写回
+    const decodeUpgradedSession = (sessionId: string, stored: StoredSession) => {
+        const { data, meta } = decodeStored(sessionId, stored);
+        return upgradeSession(sessionId, data, meta).data;
+    };
+
+    // 新写入的数据记录当前的数据结构版本
+    const stampVersion = (meta: SessionRecordMeta): SessionRecordMeta => schema ? { ...meta, version: schema.version } : meta;
+
+    // 写入及其依赖的读取使用主节点，普通读取可以传入只读副本
+    const readStored = async (key: string, source = normalizedClient): Promise<StoredSession | null> => {
+        if (!useHash) {
+            return source.get(key);
+        }
+        const fields = await source.hgetall(key);
+        return Object.keys(fields).length > 0 ? fields : null;
+    };
+
+    const readStoredBatch = async (keys: string[], source = normalizedClient): Promise<(StoredSession | null)[]> => {
+        if (!useHash) {
+            return source.mget(keys);
+        }
+        return Promise.all(keys.map((key) => readStored(key, source)));
+    };
+
+    const toHashFields = (sessionId: string, userData: UserData): Record<string, unknown> => {
+        if (userData === null || typeof userData !== 'object' || Array.isArray(userData)) {
+            throw new SessionWriteError('Hash storage requires session data to be a plain object', sessionId, undefined);
+        }
+        for (const field of Object.keys(userData)) {
+            if (isReservedField(field)) {
+                throw new SessionWriteError(`Field names starting with "$" are reserved in hash storage: ${field}`, sessionId, undefined);
+            }
+        }
+        return userData as Record<string, unknown>;
+    };
+
+    // 读取哈希当前的字段，用于没有快照时计算需要删除的字段
+    const loadHashFields = async (sessionId: string): Promise<Record<string, string> | undefined> => {
+        const stored = await readStored(getKey(sessionId));
+        if (!stored || typeof stored === 'string') {
+            return undefined;
+        }
+        try {
+            return decodeStored(sessionId, stored).fields;
+        } catch {
+            // 无法解析的字段全部视为已变化，确保被完整覆盖
+            return Object.fromEntries(Object.keys(stored).filter((field) => !isReservedField(field)).map((field) => [field, '']));
+        }
+    };
+
+    // 计算哈希字段的差异：变化的字段、未变化的字段和需要删除的字段
+    const diffHashFields = (sessionId: string, userData: UserData, previous: Record<string, string> | undefined) => {
+        const next: Record<string, string> = {};
+        const changed: Record<string, string> = {};
+        const unchanged: Record<string, string> = {};
+
+        for (const [field, value] of Object.entries(toHashFields(sessionId, userData))) {
+            const serialized = serializeValue(sessionId, value);
+            if (serialized === undefined) {
+                continue;
+            }
+            next[field] = serialized;
+            if (previous?.[field] === serialized) {
+                unchanged[field] = sealPayload(sessionId, serialized, field);
+            } else {
+                changed[field] = sealPayload(sessionId, serialized, field);
+            }
+        }
+
+        const removed = previous ? Object.keys(previous).filter((field) => !(field in next)) : [];
+        return { next, changed, unchanged, removed };
+    };
+
+    const sealHashMeta = (sessionId: string, meta: SessionRecordMeta, next: Record<string, string>) => {
+        const manifest = signer
+            ? Object.fromEntries(Object.entries(next).map(([field, serialized]) => [field, digestField(serialized)]))
+            : undefined;
+        return sealPayload(sessionId, JSON.stringify(manifest ? { ...meta, fields: manifest } : meta), HASH_META_FIELD);
+    };
+
+    const writeHashSession = async (
+        sessionId: string,
+        userData: UserData,
+        previous: Record<string, string> | undefined,
+        meta: SessionRecordMeta
+    ): Promise<boolean> => {
+        const key = getKey(sessionId);
+        const { next, changed, unchanged, removed } = diffHashFields(sessionId, userData, previous);
+        const expectedCreated = Object.keys(changed).filter((field) => !(previous && field in previous)).length;
+
+        const fields = {
+            ...changed,
+            [HASH_META_FIELD]: sealHashMeta(sessionId, meta, next)
+        };
+        instruments.payload('write', getPayloadSize(fields));
+        const created = await normalizedClient.hset(key, fields);
+        // 保留字段被新建说明哈希已不存在（例如在读取后过期），需要补写未变化的字段
+        if (created > expectedCreated && Object.keys(unchanged).length > 0) {
+            await normalizedClient.hset(key, unchanged);
+        }
+        await normalizedClient.hdel(key, removed);
+
+        const ttl = resolveTtl(meta);
+        if (ttl !== false) {
+            await normalizedClient.expire(key, ttl);
+        }
+
+        hashSnapshotCtx.set({ sessionId, fields: next });
+        return true;
+    };
+
+    // 版本化写入，返回新的版本号；版本不匹配时返回 -1
+    const writeVersionedSession = async (
+        sessionId: string,
+        userData: UserData,
+        expected: number | undefined,
+        previous: Record<string, string> | undefined,
+        meta: SessionRecordMeta
+    ): Promise<number> => {
+        const key = getKey(sessionId);
+        const expectedArg = expected === undefined ? '' : String(expected);
+        const ttl = resolveTtl(meta);
+        const ttlArg = ttl !== false ? String(ttl) : '';
+
+        if (!useHash) {
+            const encoded = sealPayload(sessionId, writeRecordMeta(meta, serializeValue(sessionId, userData) ?? 'null'));
+            instruments.payload('write', getPayloadSize(encoded));
+            return Number(await normalizedClient.eval(VERSIONED_SET_SCRIPT, [key], [expectedArg, ttlArg, encoded]));
+        }
+
+        const { next, changed, unchanged, removed } = diffHashFields(sessionId, userData, previous);
+        // 期望版本未知时整体覆盖；期望版本为 0 时哈希可能已不存在（不存在的哈希版本同样为 0），都需要写入全部字段
+        const fields: Record<string, string> = expected === undefined || expected === 0 ? { ...unchanged, ...changed } : { ...changed };
+        fields[HASH_META_FIELD] = sealHashMeta(sessionId, meta, next);
+        instruments.payload('write', getPayloadSize(fields));
+
+        const revision = Number(await normalizedClient.eval(VERSIONED_HSET_SCRIPT, [key], [
+            expectedArg,
+            ttlArg,
+            String(Object.keys(fields).length),
+            ...Object.entries(fields).flat(),
+            ...removed
+        ]));
+        if (revision >= 0) {
+            hashSnapshotCtx.set({ sessionId, fields: next });
+        }
+        return revision;
+    };
+
+    const resolvePreviousFields = async (sessionId: string, isNew: boolean) => {
+        if (isNew) {
+            return {};
+        }
+        const snapshot = hashSnapshotCtx.get();
+        return snapshot?.sessionId === sessionId
+            ? snapshot.fields
+            : loadHashFields(sessionId);
+    };
+
+    // 按冲突策略进行版本化写入
+    const writeWithConcurrency = async (
+        sessionId: string,
+        userData: UserData,
+        isNew: boolean,
+        meta: SessionRecordMeta,
+        options: SessionConcurrencyOptions<UserData>
+    ): Promise<boolean> => {
+        const onConflict = options.onConflict ?? 'reject';
+        const maxRetries = options.maxRetries ?? 3;
+
+        const known = revisionCtx.get();
+        let expected = isNew ? 0 : known?.sessionId === sessionId ? known.revision : undefined;
+        let data = userData;
+        let previous = useHash ? await resolvePreviousFields(sessionId, isNew) : undefined;
+
+        for (let attempt = 1; ; attempt++) {
+            const revision = await writeVersionedSession(sessionId, data, expected, previous, meta);
+            if (revision >= 0) {
+                revisionCtx.set({ sessionId, revision });
+                return true;
+            }
+
+            logger.debug('Session write conflict:', { sessionId, attempt, onConflict });
+            if (onConflict === 'reject') {
+                return false;
+            }
+
+            if (onConflict === 'last-write-wins') {
+                expected = undefined;
+                previous = useHash ? await loadHashFields(sessionId) : undefined;
+                continue;
+            }
+
+            if (attempt > maxRetries) {
+                return false;
+            }
+            const stored = await readStored(getKey(sessionId));
+            if (!stored) {
+                return false; // 会话已被销毁或过期，不再写回
+            }
+            const remote = decodeStored(sessionId, stored);
+            data = await options.merge!(data, remote.data, { sessionId, attempt });
+            expected = remote.revision;
+            previous = remote.fields;
+        }
+    };
+
+    // 在最新数据上重新应用本次修改：相对读取时有变化（含新增和删除）的字段以本地为准，其余字段保留最新的值
+    const rebaseHashFields = (
+        sessionId: string,
+        local: UserData,
+        base: Record<string, string> | undefined,
+        latest: UserData
+    ): UserData => {
+        const localFields = toHashFields(sessionId, local);
+        const rebased: Record<string, unknown> = { ...(latest as Record<string, unknown>) };
+        for (const field of new Set([...Object.keys(localFields), ...Object.keys(base ?? {})])) {
+            const serialized = field in localFields ? serializeValue(sessionId, localFields[field]) : undefined;
+            if (serialized === base?.[field]) {
+                continue;
+            }
+            if (serialized === undefined) {
+                delete rebased[field];
+            } else {
+                rebased[field] = localFields[field];
+            }
+        }
+        return rebased as UserData;
+    };
+
+    // 未启用并发控制时签名的哈希会话同样按版本写入，冲突时重新应用本次修改的字段，效果与逐字段写入相同
+    const writeSignedHashSession = async (
+        sessionId: string,
+        userData: UserData,
+        isNew: boolean,
+        meta: SessionRecordMeta
+    ): Promise<boolean> => {
+        const base = await resolvePreviousFields(sessionId, isNew);
+        const known = revisionCtx.get();
+        let expected = isNew ? 0 : known?.sessionId === sessionId ? known.revision : undefined;
+        let data = userData;
+        let previous = base;
+
+        for (let attempt = 0; attempt <= SIGNED_HASH_RETRIES; attempt++) {
+            if (expected !== undefined) {
+                const revision = await writeVersionedSession(sessionId, data, expected, previous, meta);
+                if (revision >= 0) {
+                    revisionCtx.set({ sessionId, revision });
+                    return true;
+                }
+                logger.debug('Session write conflict:', { sessionId, attempt });
+            }
+
+            const stored = await readStored(getKey(sessionId));
+            if (!stored || typeof stored === 'string') {
+                // 哈希已不存在（例如在读取后过期），按版本 0 重新写入全部字段
+                expected = 0;
+                previous = undefined;
+                data = userData;
+                continue;
+            }
+            try {
+                const remote = decodeStored(sessionId, stored);
+                data = rebaseHashFields(sessionId, userData, base, remote.data);
+                expected = remote.revision;
+                previous = remote.fields;
+            } catch {
+                // 无法解析的哈希以本地数据完整覆盖
+                data = userData;
+                expected = Number(stored[HASH_REVISION_FIELD]) || 0;
+                previous = Object.fromEntries(Object.keys(stored).filter((field) => !isReservedField(field)).map((field) => [field, '']));
+            }
+        }
+        return false;
+    };
+
+    // 签名和加密（AAD）都绑定了会话 ID，更换 ID 时需要以新 ID 重新封装每个值；版本号保持不变
+    const resealStored = (sessionId: string, newSessionId: string, stored: StoredSession): string[] => {
+        if (typeof stored === 'string') {
+            const revisionTag = readTag(stored, 'rev');
+            const payload = revisionTag ? revisionTag.rest : stored;
+            const sealed = sealPayload(newSessionId, openPayload(sessionId, payload));
+            return [revisionTag ? writeTag('rev', sealed, revisionTag.param) : sealed];
+        }
+
+        return Object.entries(stored).flatMap(([field, value]) => [
+            field,
+            field === HASH_REVISION_FIELD ? value : sealPayload(newSessionId, openPayload(sessionId, value, field), field)
+        ]);
+    };
+
+    // 将会话写入 Redis；哈希存储只写入变化或删除的字段
+    const writeSession = async (
+        sessionId: string,
+        userData: UserData,
+        isNew: boolean,
+        meta: SessionRecordMeta
+    ): Promise<boolean> => {
+        if (concurrency) {
+            return writeWithConcurrency(sessionId, userData, isNew, meta, concurrency);
+        }
+
+        if (signedHash) {
+            return writeSignedHashSession(sessionId, userData, isNew, meta);
+        }
+
+        if (useHash) {
+            return writeHashSession(sessionId, userData, await resolvePreviousFields(sessionId, isNew), meta);
+        }
+
+        const key = getKey(sessionId);
+        const encoded = sealPayload(sessionId, writeRecordMeta(meta, serializeValue(sessionId, userData) ?? 'null'));
+        instruments.payload('write', getPayloadSize(encoded));
+        const ttl = resolveTtl(meta);
+        if (ttl !== false) {
+            return normalizedClient.setex(key, ttl, encoded);
+        }
+        return normalizedClient.set(key, encoded);
+    };
+
+    // 本次请求未读取过会话时，启用绝对生命周期或动态 TTL 需要从 Redis 取回元数据
+    const resolveRecordMeta = async (sessionId: string): Promise<SessionRecordMeta | undefined> => {
+        const known = recordMetaCtx.get();
+        if (known?.sessionId === sessionId) {
+            return known.meta;
+        }
+        if (config.absoluteTtl === undefined && typeof config.ttl !== 'function') {
+            return {};
+        }
+        const stored = await readStored(getKey(sessionId));
+        return stored ? decodeStored(sessionId, stored).meta : undefined;
+    };
+
+    const toTtl = (ttl: number): number | false => ttl === -1 ? false : Math.max(ttl, 0);
+
+    // 删除会话并同步清理用户索引
+    const removeSession = async (sessionId: string, keyspace = resolveKeyspace()) => {
+        const key = keyspace.sessionKey(sessionId);
+
+        // 删除前读取会话以确定需要清理的用户索引
+        let userId: string | undefined;
+        if (config.getUserId) {
+            const data = await readStored(key);
+            if (data) {
+                try {
+                    userId = resolveUserId(decodeSession(sessionId, data));
+                } catch {
+                    userId = undefined;
+                }
+            }
+        }
+
+        const result = await normalizedClient.del(key);
+        await invalidate([key]);
+        if (userId !== undefined) {
+            await normalizedClient.srem(keyspace.userIndexKey(userId), [sessionId]);
+        }
+        return result > 0;
+    };
+
+    // 通过 SCAN 遍历前缀下的所有会话 key，按批次返回
+    async function* scanSessionKeys(batchSize: number, keyspace: SessionKeyspace, source: NormalizedRedisClient): AsyncGenerator<string[]> {
+        const seen = new Set<string>();
+        let batch: string[] = [];
+
+        for await (const key of source.scanIterator(keyspace.pattern, batchSize)) {
+            // SCAN 可能返回重复的 key；前缀下不符合当前 key 布局的 key 不是会话
+            if (seen.has(key) || keyspace.sessionId(key) === undefined) {
+                continue;
+            }
+            seen.add(key);
+            batch.push(key);
+
+            if (batch.length >= batchSize) {
+                yield batch;
+                batch = [];
+            }
+        }
+
+        if (batch.length > 0) {
+            yield batch;
+        }
+    }
+
+    // 按批次使用 MGET 加载前缀下的所有会话
+    async function* scanSessionRecords(batchSize: number, keyspace: SessionKeyspace): AsyncGenerator<SessionRecord<UserData>> {
+        const loadBatch = async (keys: string[]) => {
+            const [payloads, ttls] = await Promise.all([
+                readStoredBatch(keys, readClient),
+                Promise.all(keys.map((key) => readClient.ttl(key)))
+            ]);
+            const records: SessionRecord<UserData>[] = [];
+            keys.forEach((key, index) => {
+                const data = payloads[index];
+                if (!data) {
+                    return; // 扫描与读取之间已过期
+                }
+                try {
+                    const sessionId = keyspace.sessionId(key)!;
+                    records.push({
+                        sessionId,
+                        data: decodeUpgradedSession(sessionId, data),
+                        ttl: toTtl(ttls[index])
+                    });
+                } catch {
+                    // 跳过无法解析的会话
+                }
+            });
+            return records;
+        };
+
+        for await (const keys of scanSessionKeys(batchSize, keyspace, readClient)) {
+            yield* await loadBatch(keys);
+        }
+    }
+
+    // 不具备原子性：复制与删除之间对旧 key 的写入会丢失
+    const copySession = async (key: string, newKey: string, args: string[]): Promise<number> => {
+        const pttl = await normalizedClient.pttl(key);
+        if (pttl === -2) {
+            return 0;
+        }
+        const result = Number(await normalizedClient.eval(COPY_SESSION_SCRIPT, [newKey], [String(pttl), ...args]));
+        if (result === 1) {
+            await normalizedClient.del(key);
+        }
+        return result;
+    };
+
+    // 将迁移后的数据写回，剩余 TTL 保持不变；写入冲突时放弃，下次读取会再次迁移
+    const persistUpgrade = async (sessionId: string, userData: UserData, meta: SessionRecordMeta, pttl: number) => {
+        const upgradedMeta = stampVersion(meta);
+        if (!(await writeSession(sessionId, userData, false, upgradedMeta))) {
+            return;
+        }
+        const key = getKey(sessionId);
+        if (pttl > 0) {
+            await normalizedClient.expire(key, Math.ceil(pttl / 1000));
+        }
+        await invalidate([key]);
+        pinnedToPrimaryCtx.set(true);
+        recordMetaCtx.set({ sessionId, meta: upgradedMeta });
+        logger.debug('Session migrated:', { sessionId, from: meta.version ?? 0, to: upgradedMeta.version });
+    };
+
+    // 未记录创建时间的会话在首次读取时补写，否则每次读取都从头计时，滚动续期下永不过期
+    // 会话已被其他请求修改时放弃补写，那次写入已带上创建时间
+    const persistCreatedAt = async (sessionId: string, stored: StoredSession, createdAt: number) => {
+        const key = getKey(sessionId);
+        if (typeof stored === 'string') {
+            const revisionTag = readTag(stored, 'rev');
+            const { meta, serialized } = readRecordMeta(openPayload(sessionId, revisionTag ? revisionTag.rest : stored));
+            const sealed = sealPayload(sessionId, writeRecordMeta({ ...meta, createdAt }, serialized));
+            const value = revisionTag ? writeTag('rev', sealed, revisionTag.param) : sealed;
+            await normalizedClient.eval(STAMP_CREATED_SCRIPT, [key], [stored, value]);
+        } else {
+            // 在原有 $meta 上补写，签名时其中的字段清单保持不变
+            const previous = stored[HASH_META_FIELD] ?? '';
+            const parsed = previous ? JSON.parse(openPayload(sessionId, previous, HASH_META_FIELD)) as Record<string, unknown> : {};
+            const value = sealPayload(sessionId, JSON.stringify({ ...parsed, createdAt }), HASH_META_FIELD);
+            await normalizedClient.eval(STAMP_CREATED_HASH_SCRIPT, [key], [previous, value]);
+        }
+        await invalidate([key]);
+    };
+
+    // 不带版本号的完整编码，与 writeSession 写入的内容一致
+    const codec: SessionCodec<UserData> = {
+        storage: useHash ? 'hash' : 'string',
+
+        decode(sessionId, stored) {
+            const { data, recordedMeta } = decodeStored(sessionId, stored);
+            return { data, meta: recordedMeta };
+        },
+
+        encode(sessionId, data, meta = {}) {
+            if (!useHash) {
+                return sealPayload(sessionId, writeRecordMeta(meta, serializeValue(sessionId, data) ?? 'null'));
+            }
+            const { next, changed } = diffHashFields(sessionId, data, undefined);
+            return { ...changed, [HASH_META_FIELD]: sealHashMeta(sessionId, meta, next) };
+        }
+    };
+
+    let closed = false;
+    const store: RedisSessionStore<UserData> = {
+        async get(sessionId: string): Promise<UserData | null | undefined> {
+            if (!sessionId) {
+                return null;
+            }
+
+            try {
+                // 解析命名空间可能失败，与其他操作一样交给 handleFailure 处理
+                const key = getKey(sessionId);
+                // 本地缓存命中时不访问 Redis；否则剩余毫秒数与数据并发读取，两条命令在同一批次中发出
+                const cached = cache?.get(key);
+                const source = pinnedToPrimaryCtx.get() ? normalizedClient : readClient;
+                const [data, pttl]: [StoredSession | null, number] = cached
+                    ? [cached.value, cached.pttl]
+                    : await Promise.all([readStored(key, source), source.pttl(key)]);
+                if (!data || pttl === -2) {
+                    instruments.count('get', 'miss');
+                    return null;
+                }
+
+                const { data: storedData, fields, revision, meta, recordedMeta } = decodeStored(sessionId, data);
+                if (isLifetimeExceeded(meta)) {
+                    // 超过绝对生命周期的会话视为已过期
+                    logger.debug('Session exceeded its absolute lifetime:', sessionId);
+                    await removeSession(sessionId);
+                    instruments.count('get', 'miss');
+                    return null;
+                }
+
+                let upgraded: { data: UserData; migrated: boolean };
+                try {
+                    upgraded = upgradeSession(sessionId, storedData, meta);
+                } catch (error) {
+                    if (!(error instanceof SessionValidationError) || invalidPolicy === 'throw') {
+                        throw error;
+                    }
+                    // 校验失败的会话视为不存在
+                    logger.warn('Session failed validation:', error);
+                    if (invalidPolicy === 'destroy') {
+                        await removeSession(sessionId);
+                    }
+                    instruments.count('get', 'invalid');
+                    return null;
+                }
+                const userData = upgraded.data;
+
+                if (!cached) {
+                    cache?.set(key, data, pttl);
+                }
+                recordMetaCtx.set({ sessionId, meta });
+                if (fields) {
+                    hashSnapshotCtx.set({ sessionId, fields });
+                }
+                if (concurrency || signedHash) {
+                    revisionCtx.set({ sessionId, revision });
+                }
+                if (upgraded.migrated) {
+                    await persistUpgrade(sessionId, userData, meta, pttl);
+                } else if (recordedMeta.createdAt === undefined && meta.createdAt !== undefined) {
+                    await persistCreatedAt(sessionId, data, meta.createdAt);
+                }
+
+                // Report the remaining lifetime of the key itself
+                let expiresTime = toExpiresTime(pttl === -1 ? false : pttl / 1000);
+                let renewed = false;
+
+                // Handle rolling and renew strategies; neither extends past the absolute lifetime
+                // 缓存命中时不做滚动续期，会话最多比不启用缓存时早 maxAge 秒过期
+                const ttl = resolveTtl(meta);
+                if (config.rolling && ttl !== false && !cached) {
+                    await normalizedClient.expire(key, ttl);
+                    cache?.expire(key, ttl);
+                    expiresTime = toExpiresTime(ttl);
+                    renewed = true;
+                    instruments.renewal('rolling');
+                    await refreshUserIndex(userData, ttl);
+                } else if (config.renew && ttl !== false) {
+                    const remaining = pttl / 1000;
+                    if (remaining > 0 && remaining < config.renewBefore && remaining < ttl) {
+                        await normalizedClient.expire(key, ttl);
+                        cache?.expire(key, ttl);
+                        expiresTime = toExpiresTime(ttl);
+                        renewed = true;
+                        instruments.renewal('renew');
+                        await refreshUserIndex(userData, ttl);
+                    }
+                }
+
+                sessionMetaDataCtx.set({
+                    sessionId,
+                    expiresTime
+                });
+
+                if (renewed) {
+                    await events.emit('renew', { sessionId, expiresTime });
+                }
+                instruments.count('get', 'hit');
+                await events.emit('load', { sessionId, data: userData });
+                return userData;
+            } catch (error) {
+                if (error instanceof SessionSignatureError) {
+                    instruments.count('get', 'corrupt');
+                    reportInvalidSignature(error);
+                    return null;
+                }
+                return handleFailure('get', sessionId, error);
+            }
+        },
+
+        async set(userData: UserData): Promise<boolean | undefined> {
+            const sessionMeta = sessionMetaDataCtx.get();
             if (!sessionMeta?.sessionId) {
                 return undefined;
             }
 
-            const key = getKey(sessionMeta.sessionId);
-            
             try {
-                const data = JSON.stringify(userData);
-                
-                if (config.ttl !== false) {
-                    const result = await normalizedClient.setex(key, config.ttl, data);
-                    return result ? true : false;
-                } else {
-                    const result = await normalizedClient.set(key, data);
-                    return result ? true : false;
+                const known = await resolveRecordMeta(sessionMeta.sessionId);
+                if (!known || isLifetimeExceeded(known)) {
+                    instruments.count('set', 'rejected');
+                    return false;
+                }
+
+                // 动态 TTL 随数据变化重新计算，例如会话中途勾选了"记住我"
+                const ttl = evaluateTtl(userData);
+                const meta = stampVersion(ttl === undefined ? known : { ...known, ttl });
+                const result = await writeSession(sessionMeta.sessionId, userData, false, meta);
+                await invalidate([getKey(sessionMeta.sessionId)]);
+
+                if (result) {
+                    pinnedToPrimaryCtx.set(true);
+                    recordMetaCtx.set({ sessionId: sessionMeta.sessionId, meta });
+                    await indexSession(sessionMeta.sessionId, userData, resolveTtl(meta));
+                    await events.emit('save', { sessionId: sessionMeta.sessionId, data: userData });
                 }
+                instruments.count('set', result ? 'saved' : 'rejected');
+                return result ? true : false;
             } catch (error) {
-                console.error('Failed to save session:', error);
-                return undefined;
+                return handleFailure('set', sessionMeta.sessionId, error);
             }
         },
 
         async create(userData?: UserData): Promise<UserData | undefined> {
             const sessionId = config.genSessionId();
             const data = userData || config.defaultData();
-            const key = getKey(sessionId);
-
             try {
-                const jsonData = JSON.stringify(data);
-                let result: boolean;
-
-                if (config.ttl !== false) {
-                    result = await normalizedClient.setex(key, config.ttl, jsonData);
-                } else {
-                    result = await normalizedClient.set(key, jsonData);
-                }
+                // 仅在启用绝对生命周期或动态 TTL 时记录元数据，保持旧版本的存储格式
+                const meta = stampVersion({
+                    createdAt: config.absoluteTtl !== undefined ? Date.now() : undefined,
+                    ttl: evaluateTtl(data)
+                });
+                const result = await writeSession(sessionId, data, true, meta);
 
                 if (result) {
+                    pinnedToPrimaryCtx.set(true);
+                    recordMetaCtx.set({ sessionId, meta });
+                    await indexSession(sessionId, data, resolveTtl(meta));
+
                     // Set session metadata in context for parser to use
-                    const expiresTime = config.ttl !== false 
-                        ? Date.now() + (config.ttl * 1000)
-                        : Date.now() + (365 * 24 * 60 * 60 * 1000); // 1 year if no TTL
-                    
                     sessionMetaDataCtx.set({
                         sessionId,
-                        expiresTime
+                        expiresTime: toExpiresTime(resolveTtl(meta))
                     });
-                    
+
+                    instruments.count('create', 'created');
+                    await events.emit('create', { sessionId, data });
                     return data;
                 }
                 return undefined;
             } catch (error) {
-                console.error('Failed to create session:', error);
-                return undefined;
+                return handleFailure('create', sessionId, error);
+            }
+        },
+
+        async restore(sessionId: string, userData: UserData, createdAt?: number): Promise<boolean | undefined> {
+            try {
+                const meta = stampVersion({
+                    createdAt: config.absoluteTtl !== undefined ? createdAt ?? Date.now() : undefined,
+                    ttl: evaluateTtl(userData)
+                });
+                if (isLifetimeExceeded(meta)) {
+                    instruments.count('create', 'rejected');
+                    return false;
+                }
+                const result = await writeSession(sessionId, userData, true, meta);
+                await invalidate([getKey(sessionId)]);
+
+                if (result) {
+                    pinnedToPrimaryCtx.set(true);
+                    recordMetaCtx.set({ sessionId, meta });
+                    await indexSession(sessionId, userData, resolveTtl(meta));
+                    await events.emit('create', { sessionId, data: userData });
+                }
+                instruments.count('create', result ? 'created' : 'rejected');
+                return result;
+            } catch (error) {
+                return handleFailure('create', sessionId, error);
             }
         },
 
@@ -413,48 +1898,387 @@ export function createRedisSessionStore<UserData = any>(
                 return false;
             }
 
-            const key = getKey(sessionMeta.sessionId);
-            
             try {
-                const result = await normalizedClient.del(key);
+                const result = await removeSession(sessionMeta.sessionId);
                 // Clear session metadata regardless of result
                 sessionMetaDataCtx.set(undefined);
-                return result > 0;
+                instruments.count('destroy', result ? 'destroyed' : 'miss');
+                if (result) {
+                    await events.emit('destroy', { sessionId: sessionMeta.sessionId });
+                }
+                return result;
             } catch (error) {
-                console.error('Failed to destroy session:', error);
-                return undefined;
+                return handleFailure('destroy', sessionMeta.sessionId, error);
             }
         },
 
-        async touch(): Promise<boolean | undefined> {
+        async regenerate(): Promise<boolean | undefined> {
             const sessionMeta = sessionMetaDataCtx.get();
             if (!sessionMeta?.sessionId) {
                 return false;
             }
 
-            if (config.ttl === false) {
-                return false; // No TTL to update
+            const sessionId = sessionMeta.sessionId;
+
+            try {
+                const key = getKey(sessionId);
+                // 需要重新签名或加密、更新用户索引或跨槽复制时才读取会话数据
+                const reseal = Boolean(signer || encryptor);
+                const needsData = Boolean(reseal || config.getUserId || crossSlotRegenerate);
+                const stored = needsData ? await readStored(key) : null;
+                if (needsData && !stored) {
+                    return false;
+                }
+
+                let newSessionId: string | undefined;
+                for (let attempt = 0; attempt < 3 && !newSessionId; attempt++) {
+                    const candidate = config.genSessionId();
+                    const args = stored && (reseal || crossSlotRegenerate)
+                        ? [
+                            typeof stored === 'string' ? 'string' : 'hash',
+                            ...(reseal
+                                ? resealStored(sessionId, candidate, stored)
+                                : typeof stored === 'string' ? [stored] : Object.entries(stored).flat())
+                        ]
+                        : ['rename'];
+                    const result = crossSlotRegenerate
+                        ? await copySession(key, getKey(candidate), args)
+                        : Number(await normalizedClient.eval(REGENERATE_SCRIPT, [key, getKey(candidate)], args));
+                    if (result === 0) {
+                        return false;
+                    }
+                    if (result === 1) {
+                        newSessionId = candidate;
+                    }
+                }
+                if (!newSessionId) {
+                    return false;
+                }
+                pinnedToPrimaryCtx.set(true);
+                await invalidate([key]);
+
+                if (stored && config.getUserId) {
+                    const userId = resolveUserId(decodeSession(sessionId, stored));
+                    if (userId !== undefined) {
+                        await normalizedClient.srem(getUserIndexKey(userId), [sessionId]);
+                        await normalizedClient.sadd(getUserIndexKey(userId), [newSessionId]);
+                    }
+                }
+
+                // 请求上下文中的快照和版本号随会话一起迁移
+                const snapshot = hashSnapshotCtx.get();
+                if (snapshot?.sessionId === sessionId) {
+                    hashSnapshotCtx.set({ ...snapshot, sessionId: newSessionId });
+                }
+                const known = revisionCtx.get();
+                if (known?.sessionId === sessionId) {
+                    revisionCtx.set({ ...known, sessionId: newSessionId });
+                }
+                // 创建时间同样保留，更换 ID 不会延长绝对生命周期
+                const recordMeta = recordMetaCtx.get();
+                if (recordMeta?.sessionId === sessionId) {
+                    recordMetaCtx.set({ ...recordMeta, sessionId: newSessionId });
+                }
+
+                // 剩余 TTL 随数据一起迁移，过期时间保持不变
+                sessionMetaDataCtx.set({
+                    ...sessionMeta,
+                    sessionId: newSessionId
+                });
+                instruments.count('regenerate', 'regenerated');
+                return true;
+            } catch (error) {
+                return handleFailure('regenerate', sessionId, error);
+            }
+        },
+
+        async touch(): Promise<boolean | undefined> {
+            const sessionMeta = sessionMetaDataCtx.get();
+            if (!sessionMeta?.sessionId) {
+                return false;
             }
 
-            const key = getKey(sessionMeta.sessionId);
-            
             try {
-                const result = await normalizedClient.expire(key, config.ttl);
+                const key = getKey(sessionMeta.sessionId);
+                const meta = await resolveRecordMeta(sessionMeta.sessionId);
+                if (!meta || isLifetimeExceeded(meta)) {
+                    return false;
+                }
+
+                const ttl = resolveTtl(meta);
+                if (ttl === false || getSessionTtl(meta) === false) {
+                    return false; // No TTL to update
+                }
+
+                const result = await normalizedClient.expire(key, ttl);
                 if (result) {
+                    pinnedToPrimaryCtx.set(true);
+                    cache?.expire(key, ttl);
+                    if (config.getUserId) {
+                        const data = await readStored(key);
+                        if (data) {
+                            await refreshUserIndex(decodeSession(sessionMeta.sessionId, data), ttl);
+                        }
+                    }
+
                     // Update expiry time in context
+                    const expiresTime = toExpiresTime(ttl);
                     sessionMetaDataCtx.set({
                         ...sessionMeta,
-                        expiresTime: Date.now() + (config.ttl * 1000)
+                        expiresTime
                     });
+                    instruments.count('touch', 'touched');
+                    await events.emit('touch', { sessionId: sessionMeta.sessionId, expiresTime });
                     return true;
                 }
+                instruments.count('touch', 'miss');
                 return false;
             } catch (error) {
-                console.error('Failed to touch session:', error);
-                return undefined;
+                return handleFailure('touch', sessionMeta.sessionId, error);
+            }
+        },
+
+        async listUserSessions(userId: string | number, options: SessionScopeOptions = {}): Promise<string[]> {
+            assertUserIndex();
+
+            const keyspace = resolveKeyspace(options.namespace);
+            const indexKey = keyspace.userIndexKey(userId);
+            const sessionIds = await normalizedClient.smembers(indexKey);
+            if (sessionIds.length === 0) {
+                return [];
             }
+
+            const payloads = await readStoredBatch(sessionIds.map((sessionId) => keyspace.sessionKey(sessionId)));
+            const live: string[] = [];
+            const stale: string[] = [];
+
+            sessionIds.forEach((sessionId, index) => {
+                const data = payloads[index];
+                if (!data) {
+                    stale.push(sessionId);
+                    return;
+                }
+                try {
+                    // 会话可能已被重新分配给其他用户（例如切换登录）
+                    if (resolveUserId(decodeSession(sessionId, data)) === String(userId)) {
+                        live.push(sessionId);
+                    } else {
+                        stale.push(sessionId);
+                    }
+                } catch {
+                    stale.push(sessionId);
+                }
+            });
+
+            await normalizedClient.srem(indexKey, stale);
+            return live;
+        },
+
+        async destroyUserSessions(userId: string | number, options: SessionScopeOptions = {}): Promise<number> {
+            const keyspace = resolveKeyspace(options.namespace);
+            const sessionIds = await store.listUserSessions(userId, options);
+            const keys = sessionIds.map((sessionId) => keyspace.sessionKey(sessionId));
+            const deleted = keys.length > 0 ? await normalizedClient.del(keys) : 0;
+            await invalidate(keys);
+            // 只移除已销毁的会话，期间新建的会话仍保留在索引中
+            await normalizedClient.srem(keyspace.userIndexKey(userId), sessionIds);
+            for (const sessionId of sessionIds) {
+                instruments.count('destroy', 'destroyed');
+                await events.emit('destroy', { sessionId });
+            }
+
+            // 若当前请求的会话也被销毁，清除上下文以免 autoSave 重新写回
+            const sessionMeta = readSessionMeta();
+            if (sessionMeta?.sessionId && sessionIds.includes(sessionMeta.sessionId)) {
+                sessionMetaDataCtx.set(undefined);
+            }
+            return deleted;
+        },
+
+        async listSessions(options: ListSessionsOptions = {}): Promise<SessionRecord<UserData>[]> {
+            const limit = options.limit ?? Infinity;
+            const records: SessionRecord<UserData>[] = [];
+            if (limit <= 0) {
+                return records;
+            }
+
+            for await (const record of scanSessionRecords(options.batchSize ?? 100, resolveKeyspace(options.namespace))) {
+                records.push(record);
+                if (records.length >= limit) {
+                    break;
+                }
+            }
+            return records;
+        },
+
+        async getSessionById(sessionId: string, options: SessionScopeOptions = {}): Promise<SessionRecord<UserData> | null> {
+            if (!sessionId) {
+                return null;
+            }
+
+            const key = resolveKeyspace(options.namespace).sessionKey(sessionId);
+            const [data, ttl] = await Promise.all([
+                readStored(key, readClient),
+                readClient.ttl(key)
+            ]);
+            if (!data) {
+                return null;
+            }
+
+            try {
+                return {
+                    sessionId,
+                    data: decodeUpgradedSession(sessionId, data),
+                    ttl: toTtl(ttl)
+                };
+            } catch (error) {
+                if (error instanceof SessionSignatureError) {
+                    reportInvalidSignature(error);
+                    return null;
+                }
+                if (error instanceof SessionValidationError && invalidPolicy !== 'throw') {
+                    return null;
+                }
+                throw error;
+            }
+        },
+
+        async countSessions(options: Pick<ListSessionsOptions, 'batchSize' | 'namespace'> = {}): Promise<number> {
+            const keyspace = resolveKeyspace(options.namespace);
+            const seen = new Set<string>();
+            for await (const key of readClient.scanIterator(keyspace.pattern, options.batchSize ?? 100)) {
+                if (keyspace.sessionId(key) !== undefined) {
+                    seen.add(key);
+                }
+            }
+            return seen.size;
+        },
+
+        async destroySessionById(sessionId: string, options: SessionScopeOptions = {}): Promise<boolean> {
+            if (!sessionId) {
+                return false;
+            }
+
+            const result = await removeSession(sessionId, resolveKeyspace(options.namespace));
+
+            // 若销毁的是当前请求的会话，清除上下文以免 autoSave 重新写回
+            const sessionMeta = readSessionMeta();
+            if (sessionMeta?.sessionId === sessionId) {
+                sessionMetaDataCtx.set(undefined);
+            }
+            if (result) {
+                instruments.count('destroy', 'destroyed');
+                await events.emit('destroy', { sessionId });
+            }
+            return result;
+        },
+
+        async purgeSessions(
+            predicate: (session: SessionPurgeCandidate<UserData>) => boolean | Promise<boolean>,
+            options: PurgeSessionsOptions = {}
+        ): Promise<PurgeSessionsReport> {
+            const keyspace = resolveKeyspace(options.namespace);
+            const dryRun = options.dryRun ?? false;
+            const unlink = options.unlink ?? true;
+            const currentSessionId = readSessionMeta()?.sessionId;
+            const report: PurgeSessionsReport = { scanned: 0, matched: 0, deleted: 0, skipped: 0, dryRun };
+
+            // 删除的依据从主节点读取，避免副本的复制延迟导致误删
+            for await (const keys of scanSessionKeys(options.batchSize ?? 100, keyspace, normalizedClient)) {
+                const [payloads, ttls] = await Promise.all([
+                    readStoredBatch(keys),
+                    Promise.all(keys.map((key) => normalizedClient.ttl(key)))
+                ]);
+
+                const matches: { key: string; sessionId: string; userId?: string }[] = [];
+                for (const [index, key] of keys.entries()) {
+                    const stored = payloads[index];
+                    if (!stored) {
+                        continue; // 扫描与读取之间已过期
+                    }
+                    report.scanned++;
+                    const sessionId = keyspace.sessionId(key)!;
+                    let candidate: SessionPurgeCandidate<UserData>;
+                    try {
+                        const { data, meta, recordedMeta } = decodeStored(sessionId, stored);
+                        candidate = {
+                            sessionId,
+                            data: upgradeSession(sessionId, data, meta).data,
+                            ttl: toTtl(ttls[index]),
+                            // 只传入存储的创建时间，completeMeta 为旧会话补上的当前时间会让按时间清理漏掉它们
+                            createdAt: recordedMeta.createdAt
+                        };
+                    } catch {
+                        report.skipped++;
+                        continue;
+                    }
+                    if (!(await predicate(candidate))) {
+                        continue;
+                    }
+                    report.matched++;
+                    let userId: string | undefined;
+                    try {
+                        userId = resolveUserId(candidate.data);
+                    } catch {
+                        userId = undefined;
+                    }
+                    matches.push({ key, sessionId, userId });
+                }
+
+                if (dryRun || matches.length === 0) {
+                    continue;
+                }
+
+                const matchedKeys = matches.map((match) => match.key);
+                report.deleted += unlink && normalizedClient.unlink
+                    ? await normalizedClient.unlink(matchedKeys)
+                    : await normalizedClient.del(matchedKeys);
+                await invalidate(matchedKeys);
+
+                // 按用户分组，每个用户索引只执行一次 SREM
+                const indexed = new Map<string, string[]>();
+                for (const { sessionId, userId } of matches) {
+                    if (userId !== undefined) {
+                        indexed.set(userId, [...(indexed.get(userId) ?? []), sessionId]);
+                    }
+                }
+                await Promise.all([...indexed].map(([userId, sessionIds]) => {
+                    return normalizedClient.srem(keyspace.userIndexKey(userId), sessionIds);
+                }));
+
+                for (const { sessionId } of matches) {
+                    instruments.count('destroy', 'destroyed');
+                    await events.emit('destroy', { sessionId });
+                    // 若当前请求的会话也被删除，清除上下文以免 autoSave 重新写回
+                    if (sessionId === currentSessionId) {
+                        sessionMetaDataCtx.set(undefined);
+                    }
+                }
+            }
+            return report;
+        },
+
+        events,
+
+        circuit: resilientClient?.circuit,
+
+        codec,
+
+        async close() {
+            if (closed) {
+                return;
+            }
+            closed = true;
+            const subscription = await invalidationSubscription;
+            await subscription?.unsubscribe();
         }
     };
 
+    // 为会话操作创建 span 并记录耗时
+    for (const operation of ['get', 'set', 'create', 'destroy', 'regenerate', 'touch'] as const) {
+        const method = store[operation] as (...args: unknown[]) => Promise<unknown>;
+        (store as unknown as Record<string, unknown>)[operation] = instruments.trace(operation, method);
+    }
+
     return store;
-}
\ No newline at end of file
+}
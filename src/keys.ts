@@ -0,0 +1,63 @@
+/**
+ * How session keys are named, which decides the Redis Cluster hash slot they land in
+ * - 'plain': `<prefix>:<sessionId>`
+ * - 'single-slot': `{<prefix>}:<sessionId>`, every session shares one slot so multi-key
+ *   commands stay atomic, at the cost of putting all sessions on one node
+ */
+export type SessionKeyLayout = 'plain' | 'single-slot';
+
+export interface SessionKeyspace {
+    /**
+     * SCAN MATCH pattern covering every session key
+     */
+    readonly pattern: string;
+    sessionKey(sessionId: string): string;
+    /**
+     * Session id of a key, or undefined when the key is not a session key
+     */
+    sessionId(key: string): string | undefined;
+    userIndexKey(userId: string | number): string;
+    /**
+     * SCAN MATCH pattern covering every user index key
+     */
+    readonly userIndexPattern: string;
+    /**
+     * User id of a key, or undefined when the key is not a user index key
+     */
+    userId(key: string): string | undefined;
+}
+
+/**
+ * @param userIndexPrefix prefix of the per-user index keys, defaults to `<prefix>-user`
+ */
+export function createSessionKeyspace(
+    prefix: string,
+    layout: SessionKeyLayout = 'plain',
+    userIndexPrefix?: string
+): SessionKeyspace {
+    // single-slot 下哈希标签包住整个前缀，默认的用户索引 key 也带上同一个标签
+    const keyPrefix = layout === 'single-slot' ? `{${prefix}}` : prefix;
+    const indexPrefix = userIndexPrefix ?? `${keyPrefix}-user`;
+
+    return {
+        pattern: `${keyPrefix}:*`,
+
+        sessionKey(sessionId) {
+            return `${keyPrefix}:${sessionId}`;
+        },
+
+        sessionId(key) {
+            return key.startsWith(`${keyPrefix}:`) ? key.slice(keyPrefix.length + 1) : undefined;
+        },
+
+        userIndexKey(userId) {
+            return `${indexPrefix}:${userId}`;
+        },
+
+        userIndexPattern: `${indexPrefix}:*`,
+
+        userId(key) {
+            return key.startsWith(`${indexPrefix}:`) ? key.slice(indexPrefix.length + 1) : undefined;
+        }
+    };
+}
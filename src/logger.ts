@@ -0,0 +1,36 @@
+export type SessionLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Level-aware logger used by the store
+ * console satisfies this interface, and so do pino, winston and bunyan loggers
+ */
+export interface SessionLogger {
+    debug(message: string, ...args: unknown[]): void;
+    info(message: string, ...args: unknown[]): void;
+    warn(message: string, ...args: unknown[]): void;
+    error(message: string, ...args: unknown[]): void;
+}
+
+const LEVEL_ORDER: Record<SessionLogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+    silent: 50
+};
+
+const noop = () => {};
+
+/**
+ * Drop messages below the given level before they reach the logger.
+ */
+export function createLevelLogger(logger: SessionLogger, level: SessionLogLevel): SessionLogger {
+    const enabled = (target: Exclude<SessionLogLevel, 'silent'>) => LEVEL_ORDER[target] >= LEVEL_ORDER[level];
+    // 每次调用时再取方法，便于测试中替换 console 上的方法
+    return {
+        debug: enabled('debug') ? (message, ...args) => logger.debug(message, ...args) : noop,
+        info: enabled('info') ? (message, ...args) => logger.info(message, ...args) : noop,
+        warn: enabled('warn') ? (message, ...args) => logger.warn(message, ...args) : noop,
+        error: enabled('error') ? (message, ...args) => logger.error(message, ...args) : noop
+    };
+}
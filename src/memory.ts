@@ -0,0 +1,140 @@
+import { SessionStore, sessionMetaDataCtx } from 'farrow-auth-session';
+import { ulid } from 'ulid';
+
+export interface MemorySessionStoreOptions<UserData> {
+    /**
+     * Session expiration time in seconds, reset by create, set and touch
+     * @default 86400 (24 hours)
+     */
+    ttl?: number;
+
+    /**
+     * Maximum number of sessions kept; the least recently used is evicted first
+     * @default 10000
+     */
+    maxEntries?: number;
+
+    /**
+     * Function to generate session IDs
+     * @default ulid
+     */
+    genSessionId?: () => string;
+
+    /**
+     * Default data for new sessions
+     * @default () => ({})
+     */
+    defaultData?: () => UserData;
+}
+
+export interface MemorySessionStore<UserData> extends SessionStore<UserData, string> {
+    /**
+     * Expire a session at the given time if that is earlier than its current expiry,
+     * e.g. to keep a copy of a session no longer than its original store does
+     * Returns false when the session does not exist
+     */
+    expireAt(sessionId: string, expiresTime: number): boolean;
+}
+
+interface MemoryEntry {
+    // 保存 JSON 文本，避免不同请求共享同一个对象
+    payload: string;
+    expiresAt: number;
+}
+
+/**
+ * In-process LRU session store, meant as the secondary of createFallbackSessionStore.
+ * Sessions are lost on restart and are not shared between instances.
+ */
+export function createMemorySessionStore<UserData = any>(
+    options: MemorySessionStoreOptions<UserData> = {}
+): MemorySessionStore<UserData> {
+    const ttl = options.ttl ?? 86400;
+    const maxEntries = options.maxEntries ?? 10000;
+    const genSessionId = options.genSessionId ?? (() => ulid());
+    const defaultData = options.defaultData ?? (() => ({} as UserData));
+    const entries = new Map<string, MemoryEntry>();
+
+    const write = (sessionId: string, userData: UserData) => {
+        const expiresAt = Date.now() + ttl * 1000;
+        entries.delete(sessionId);
+        entries.set(sessionId, { payload: JSON.stringify(userData), expiresAt });
+        if (entries.size > maxEntries) {
+            entries.delete(entries.keys().next().value as string);
+        }
+        return expiresAt;
+    };
+
+    const read = (sessionId: string) => {
+        const entry = entries.get(sessionId);
+        if (!entry) {
+            return undefined;
+        }
+        entries.delete(sessionId);
+        if (entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+        entries.set(sessionId, entry);
+        return entry;
+    };
+
+    return {
+        async get(sessionId) {
+            const entry = sessionId ? read(sessionId) : undefined;
+            if (!entry) {
+                return null;
+            }
+            sessionMetaDataCtx.set({ sessionId, expiresTime: entry.expiresAt });
+            return JSON.parse(entry.payload) as UserData;
+        },
+
+        async set(userData) {
+            const sessionMeta = sessionMetaDataCtx.get();
+            if (!sessionMeta?.sessionId) {
+                return undefined;
+            }
+            // 备用存储中可能还没有这个会话（例如在故障前从主存储读取），直接写入
+            const expiresTime = write(sessionMeta.sessionId, userData);
+            sessionMetaDataCtx.set({ ...sessionMeta, expiresTime });
+            return true;
+        },
+
+        async create(userData) {
+            const sessionId = genSessionId();
+            const data = userData || defaultData();
+            const expiresTime = write(sessionId, data);
+            sessionMetaDataCtx.set({ sessionId, expiresTime });
+            return data;
+        },
+
+        async destroy() {
+            const sessionMeta = sessionMetaDataCtx.get();
+            if (!sessionMeta?.sessionId) {
+                return false;
+            }
+            const result = entries.delete(sessionMeta.sessionId);
+            sessionMetaDataCtx.set(undefined);
+            return result;
+        },
+
+        async touch() {
+            const sessionMeta = sessionMetaDataCtx.get();
+            const entry = sessionMeta?.sessionId ? read(sessionMeta.sessionId) : undefined;
+            if (!sessionMeta || !entry) {
+                return false;
+            }
+            entry.expiresAt = Date.now() + ttl * 1000;
+            sessionMetaDataCtx.set({ ...sessionMeta, expiresTime: entry.expiresAt });
+            return true;
+        },
+
+        expireAt(sessionId, expiresTime) {
+            const entry = entries.get(sessionId);
+            if (!entry) {
+                return false;
+            }
+            entry.expiresAt = Math.min(entry.expiresAt, expiresTime);
+            return true;
+        }
+    };
+}
@@ -0,0 +1,284 @@
+import { performance } from 'perf_hooks';
+import { REDIS_COMMANDS } from './client';
+import type { NormalizedRedisClient } from './client';
+import type { SessionOperation } from './events';
+
+export type MetricAttributes = Record<string, string | number | boolean>;
+
+export interface MetricOptions {
+    description?: string;
+    unit?: string;
+}
+
+/**
+ * Monotonic counter, the shape of an OpenTelemetry Counter
+ */
+export interface SessionCounter {
+    add(value: number, attributes?: MetricAttributes): void;
+}
+
+/**
+ * Value distribution, the shape of an OpenTelemetry Histogram
+ */
+export interface SessionHistogram {
+    record(value: number, attributes?: MetricAttributes): void;
+}
+
+/**
+ * Creates instruments; an OpenTelemetry Meter can be passed as is
+ */
+export interface SessionMeter {
+    createCounter(name: string, options?: MetricOptions): SessionCounter;
+    createHistogram(name: string, options?: MetricOptions): SessionHistogram;
+}
+
+/**
+ * The subset of an OpenTelemetry Span used by the store
+ */
+export interface SessionSpan {
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    recordException(exception: Error | string): unknown;
+    end(): void;
+}
+
+/**
+ * Starts spans; an OpenTelemetry Tracer can be passed as is
+ */
+export interface SessionTracer {
+    startSpan(name: string, options?: { attributes?: MetricAttributes }): SessionSpan;
+}
+
+export interface SessionTelemetryOptions {
+    meter?: SessionMeter;
+    tracer?: SessionTracer;
+}
+
+// 与 OpenTelemetry 的 SpanStatusCode 取值一致
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+export const SESSION_METRICS = {
+    /** Counter of store operations by session.operation and session.outcome */
+    operations: 'session.operations',
+    /** Counter of expirations extended while reading, by session.renew.strategy */
+    renewals: 'session.renewals',
+    /** Histogram of store operation latency in milliseconds, by session.operation */
+    operationDuration: 'session.operation.duration',
+    /** Histogram of Redis command latency in milliseconds, by db.operation and session.redis.status */
+    commandDuration: 'session.redis.command.duration',
+    /** Histogram of stored payload sizes in bytes, by session.payload.direction */
+    payloadSize: 'session.payload.size'
+} as const;
+
+const toError = (error: unknown) => error instanceof Error ? error : String(error);
+
+// 在 span 中执行异步函数，失败时记录异常并设置错误状态
+async function withSpan<T>(
+    tracer: SessionTracer | undefined,
+    name: string,
+    attributes: MetricAttributes,
+    fn: () => Promise<T>
+): Promise<T> {
+    const span = tracer?.startSpan(name, { attributes });
+    try {
+        const result = await fn();
+        span?.setStatus({ code: SPAN_STATUS_OK });
+        return result;
+    } catch (error) {
+        span?.recordException(toError(error));
+        span?.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+        throw error;
+    } finally {
+        span?.end();
+    }
+}
+
+/**
+ * Time every command of a normalized client and trace it as a `redis.<COMMAND>` span.
+ * scanIterator and subscribe are passed through untouched.
+ */
+export function instrumentRedisClient(client: NormalizedRedisClient, telemetry: SessionTelemetryOptions): NormalizedRedisClient {
+    const duration = telemetry.meter?.createHistogram(SESSION_METRICS.commandDuration, {
+        description: 'Latency of Redis commands issued by the session store',
+        unit: 'ms'
+    });
+
+    const instrumented: Record<string, unknown> = { ...client };
+    for (const [method, command] of Object.entries(REDIS_COMMANDS)) {
+        const original = (client as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[method];
+        if (typeof original !== 'function') {
+            continue;
+        }
+        instrumented[method] = async (...args: unknown[]) => {
+            const start = performance.now();
+            let status = 'ok';
+            try {
+                return await withSpan(telemetry.tracer, `redis.${command}`, {
+                    'db.system': 'redis',
+                    'db.operation': command
+                }, () => original.apply(client, args));
+            } catch (error) {
+                status = 'error';
+                throw error;
+            } finally {
+                duration?.record(performance.now() - start, { 'db.operation': command, 'session.redis.status': status });
+            }
+        };
+    }
+    return instrumented as unknown as NormalizedRedisClient;
+}
+
+/**
+ * Instruments used by the store; every method is a no-op without telemetry options
+ */
+export interface SessionInstruments {
+    count(operation: SessionOperation, outcome: string): void;
+    renewal(strategy: 'rolling' | 'renew'): void;
+    payload(direction: 'read' | 'write', bytes: number): void;
+    trace<Args extends unknown[], T>(operation: SessionOperation, fn: (...args: Args) => Promise<T>): (...args: Args) => Promise<T>;
+}
+
+export function createSessionInstruments(telemetry: SessionTelemetryOptions | undefined): SessionInstruments {
+    const meter = telemetry?.meter;
+    const operations = meter?.createCounter(SESSION_METRICS.operations, {
+        description: 'Session store operations by outcome'
+    });
+    const renewals = meter?.createCounter(SESSION_METRICS.renewals, {
+        description: 'Session expirations extended while reading'
+    });
+    const operationDuration = meter?.createHistogram(SESSION_METRICS.operationDuration, {
+        description: 'Latency of session store operations',
+        unit: 'ms'
+    });
+    const payloadSize = meter?.createHistogram(SESSION_METRICS.payloadSize, {
+        description: 'Size of stored session payloads',
+        unit: 'By'
+    });
+
+    return {
+        count(operation, outcome) {
+            operations?.add(1, { 'session.operation': operation, 'session.outcome': outcome });
+        },
+
+        renewal(strategy) {
+            renewals?.add(1, { 'session.renew.strategy': strategy });
+        },
+
+        payload(direction, bytes) {
+            payloadSize?.record(bytes, { 'session.payload.direction': direction });
+        },
+
+        trace(operation, fn) {
+            if (!telemetry) {
+                return fn;
+            }
+            return async (...args) => {
+                const start = performance.now();
+                try {
+                    return await withSpan(telemetry.tracer, `session.${operation}`, { 'session.operation': operation }, () => fn(...args));
+                } finally {
+                    operationDuration?.record(performance.now() - start, { 'session.operation': operation });
+                }
+            };
+        }
+    };
+}
+
+export interface RecordedSpan {
+    name: string;
+    attributes: MetricAttributes;
+    status?: { code: number; message?: string };
+    exceptions: (Error | string)[];
+    ended: boolean;
+}
+
+/**
+ * In-process meter and tracer that keeps everything in memory
+ */
+export interface SessionMetricsRecorder extends SessionMeter, SessionTracer {
+    /**
+     * Sum of a counter over the data points whose attributes include the given ones
+     */
+    getCounter(name: string, attributes?: MetricAttributes): number;
+    /**
+     * Values recorded by a histogram, filtered the same way as getCounter
+     */
+    getHistogram(name: string, attributes?: MetricAttributes): number[];
+    /**
+     * Spans in the order they were started
+     */
+    readonly spans: RecordedSpan[];
+    /**
+     * Forget all data points and spans
+     */
+    reset(): void;
+}
+
+interface DataPoint {
+    value: number;
+    attributes: MetricAttributes;
+}
+
+const matches = (attributes: MetricAttributes, filter: MetricAttributes = {}) =>
+    Object.entries(filter).every(([key, value]) => attributes[key] === value);
+
+export function createMetricsRecorder(): SessionMetricsRecorder {
+    const points = new Map<string, DataPoint[]>();
+    const spans: RecordedSpan[] = [];
+
+    const record = (name: string) => (value: number, attributes: MetricAttributes = {}) => {
+        const recorded = points.get(name);
+        if (recorded) {
+            recorded.push({ value, attributes });
+        } else {
+            points.set(name, [{ value, attributes }]);
+        }
+    };
+    const select = (name: string, filter?: MetricAttributes) =>
+        (points.get(name) ?? []).filter((point) => matches(point.attributes, filter)).map((point) => point.value);
+
+    return {
+        createCounter(name) {
+            return { add: record(name) };
+        },
+
+        createHistogram(name) {
+            return { record: record(name) };
+        },
+
+        startSpan(name, options) {
+            const span: RecordedSpan = { name, attributes: { ...options?.attributes }, exceptions: [], ended: false };
+            spans.push(span);
+            return {
+                setAttribute(key, value) {
+                    span.attributes[key] = value;
+                },
+                setStatus(status) {
+                    span.status = status;
+                },
+                recordException(exception) {
+                    span.exceptions.push(exception);
+                },
+                end() {
+                    span.ended = true;
+                }
+            };
+        },
+
+        getCounter(name, attributes) {
+            return select(name, attributes).reduce((sum, value) => sum + value, 0);
+        },
+
+        getHistogram(name, attributes) {
+            return select(name, attributes);
+        },
+
+        spans,
+
+        reset() {
+            points.clear();
+            spans.length = 0;
+        }
+    };
+}
@@ -0,0 +1,389 @@
+import { createNormalizedRedisClient, isNormalizedRedisClient } from './client';
+import type { IoRedisLike, NodeRedisLike, NormalizedRedisClient, RedisLikeClient } from './client';
+import type { SessionCodec, StoredSessionPayload } from './codec';
+import { SessionDecodeError, SessionSignatureError, SessionWriteError } from './errors';
+import { createSessionKeyspace } from './keys';
+import type { SessionKeyLayout } from './keys';
+
+type MigrationClient = IoRedisLike | NodeRedisLike | RedisLikeClient | NormalizedRedisClient;
+
+export interface MigrateSessionsOptions<UserData = any> {
+    /**
+     * Redis key prefix of the source sessions
+     * @default 'session'
+     */
+    prefix?: string;
+
+    /**
+     * Key layout of the source sessions
+     * @default 'plain'
+     */
+    keyLayout?: SessionKeyLayout;
+
+    /**
+     * Prefix of the source per-user index keys, as set by the store's userIndexPrefix option
+     * @default `<prefix>-user`
+     */
+    userIndexPrefix?: string;
+
+    /**
+     * Redis key prefix to write the sessions under
+     * @default the source prefix
+     */
+    targetPrefix?: string;
+
+    /**
+     * Key layout to write the sessions with
+     * @default the source key layout
+     */
+    targetKeyLayout?: SessionKeyLayout;
+
+    /**
+     * Prefix to write the per-user index keys under
+     * @default `<targetPrefix>-user`
+     */
+    targetUserIndexPrefix?: string;
+
+    /**
+     * Codec of a store configured like the source, e.g. `sourceStore.codec`
+     * Sessions are decoded with it and encoded again with targetCodec
+     */
+    sourceCodec?: SessionCodec<UserData>;
+
+    /**
+     * Codec of a store configured like the target, to change the serializer, keys or storage format
+     * @default sourceCodec
+     */
+    targetCodec?: SessionCodec<UserData>;
+
+    /**
+     * Rewrite the decoded session data; requires sourceCodec
+     * Return null to leave the session out of the target
+     */
+    transformData?: (data: UserData, sessionId: string) => UserData | null | Promise<UserData | null>;
+
+    /**
+     * Rewrite a stored payload without decoding it; cannot be combined with sourceCodec
+     * Hash sessions are passed as their fields
+     * Return null to leave the session out of the target
+     * @default copies the payload unchanged
+     */
+    transform?: (payload: StoredSessionPayload, sessionId: string) => StoredSessionPayload | null | Promise<StoredSessionPayload | null>;
+
+    /**
+     * Keys read per SCAN COUNT hint and per MGET
+     * @default 100
+     */
+    batchSize?: number;
+
+    /**
+     * Milliseconds to wait between batches to limit the load on Redis
+     * @default 0
+     */
+    throttle?: number;
+
+    /**
+     * Read and transform every session without writing to the target
+     * @default false
+     */
+    dryRun?: boolean;
+
+    /**
+     * Resume an interrupted migration from the cursor of its last progress report
+     * Resuming from a Redis Cluster cursor requires the same master nodes
+     */
+    cursor?: string;
+
+    /**
+     * Called after every batch
+     */
+    onProgress?: (progress: MigrateSessionsProgress) => void | Promise<void>;
+}
+
+export interface MigrateSessionsProgress {
+    /**
+     * Where the migration continues after this batch, 'done' once it is complete
+     * Pass it as the cursor option to resume
+     */
+    cursor: string;
+    /**
+     * Sessions read by this run
+     */
+    scanned: number;
+    /**
+     * Sessions written to the target, or that would be written in a dry run
+     */
+    migrated: number;
+    /**
+     * Sessions left out by transform or transformData, and keys that are neither strings nor hashes
+     */
+    skipped: number;
+    /**
+     * Sessions that expired before they could be copied
+     */
+    expired: number;
+    /**
+     * Sessions that sourceCodec could not verify or decode, left out of the target
+     */
+    invalid: number;
+    /**
+     * Per-user index keys copied to the target, or that would be copied in a dry run
+     */
+    indexes: number;
+}
+
+// 哈希会话的写入脚本：先删除再写入全部字段，避免残留目标 key 上的旧字段
+// KEYS: 目标 key；ARGV[1]: 剩余毫秒数，<= 0 表示不过期；ARGV[2..]: 字段与值交替
+const WRITE_HASH_SCRIPT = `
+redis.call('DEL', KEYS[1])
+for i = 2, #ARGV, 2 do
+    redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 1])
+end
+if tonumber(ARGV[1]) > 0 then
+    redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return 1
+`;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const normalize = (client: MigrationClient) => isNormalizedRedisClient(client)
+    ? client
+    : createNormalizedRedisClient(client as RedisLikeClient);
+
+const isWrongType = (error: unknown) => error instanceof Error && error.message.includes('WRONGTYPE');
+
+type MigrationPhase = 'sessions' | 'indexes';
+
+// 游标格式为 `<阶段>:<SCAN 游标>`，集群的 SCAN 游标本身包含冒号
+const parseCursor = (cursor: string): { phase: MigrationPhase | 'done'; scanCursor: string } => {
+    if (cursor === 'done') {
+        return { phase: 'done', scanCursor: '0' };
+    }
+    const separator = cursor.indexOf(':');
+    const phase = cursor.slice(0, separator);
+    if (separator < 0 || (phase !== 'sessions' && phase !== 'indexes')) {
+        throw new Error(`Invalid migration cursor: ${cursor}`);
+    }
+    return { phase, scanCursor: cursor.slice(separator + 1) };
+};
+
+/**
+ * Copy sessions and their per-user index keys from one Redis key space to another,
+ * e.g. to a new server, prefix, key layout or storage format.
+ * Keys keep their remaining TTL. SCAN can return a key more than once; copying it again is harmless.
+ */
+export async function migrateSessions<UserData = any>(
+    source: MigrationClient,
+    target: MigrationClient,
+    options: MigrateSessionsOptions<UserData> = {}
+): Promise<MigrateSessionsProgress> {
+    const { sourceCodec, transformData } = options;
+    if (!sourceCodec && (options.targetCodec || transformData)) {
+        throw new Error('The targetCodec and transformData options require sourceCodec');
+    }
+    if (sourceCodec && options.transform) {
+        throw new Error('The transform option rewrites stored payloads and cannot be combined with sourceCodec, use transformData');
+    }
+    const targetCodec = options.targetCodec ?? sourceCodec;
+
+    const sourceClient = normalize(source);
+    const targetClient = normalize(target);
+    const batchSize = options.batchSize ?? 100;
+    const throttle = options.throttle ?? 0;
+    const sourcePrefix = options.prefix ?? 'session';
+    const targetPrefix = options.targetPrefix ?? sourcePrefix;
+    const sourceKeyspace = createSessionKeyspace(sourcePrefix, options.keyLayout, options.userIndexPrefix);
+    const targetKeyspace = createSessionKeyspace(
+        targetPrefix,
+        options.targetKeyLayout ?? options.keyLayout,
+        options.targetUserIndexPrefix
+    );
+
+    const progress: MigrateSessionsProgress = {
+        cursor: options.cursor ?? 'sessions:0',
+        scanned: 0,
+        migrated: 0,
+        skipped: 0,
+        expired: 0,
+        invalid: 0,
+        indexes: 0
+    };
+
+    // MGET 对哈希等非字符串类型返回 null，此时再按哈希读取
+    const readSession = async (key: string, payload: unknown): Promise<StoredSessionPayload | null | undefined> => {
+        if (typeof payload === 'string') {
+            return payload;
+        }
+        try {
+            const fields = await sourceClient.hgetall(key);
+            // 哈希不会为空，读不到字段说明 key 已过期
+            return Object.keys(fields).length > 0 ? fields : undefined;
+        } catch (error) {
+            if (isWrongType(error)) {
+                return null;
+            }
+            throw error;
+        }
+    };
+
+    const convert = async (stored: StoredSessionPayload, sessionId: string): Promise<StoredSessionPayload | null> => {
+        if (!sourceCodec) {
+            return options.transform ? options.transform(stored, sessionId) : stored;
+        }
+        const { data, meta } = sourceCodec.decode(sessionId, stored);
+        const transformed = transformData ? await transformData(data, sessionId) : data;
+        return transformed === null ? null : targetCodec!.encode(sessionId, transformed, meta);
+    };
+
+    const writeSession = async (sessionId: string, payload: StoredSessionPayload, pttl: number) => {
+        const targetKey = targetKeyspace.sessionKey(sessionId);
+        let written: boolean;
+        if (typeof payload === 'string') {
+            // 向上取整，避免剩余不足一秒的会话被写成永不过期
+            written = pttl > 0
+                ? await targetClient.setex(targetKey, Math.ceil(pttl / 1000), payload)
+                : await targetClient.set(targetKey, payload);
+        } else {
+            const args = [String(pttl), ...Object.entries(payload).flat()];
+            written = Number(await targetClient.eval(WRITE_HASH_SCRIPT, [targetKey], args)) === 1;
+        }
+        if (!written) {
+            throw new SessionWriteError(`Failed to write migrated session ${sessionId}`, sessionId, undefined);
+        }
+    };
+
+    const migrateSessionBatch = async (keys: string[]) => {
+        if (keys.length === 0) {
+            return;
+        }
+        const [payloads, pttls] = await Promise.all([
+            sourceClient.mget(keys),
+            Promise.all(keys.map((key) => sourceClient.pttl(key)))
+        ]);
+
+        await Promise.all(keys.map(async (key, index) => {
+            const sessionId = sourceKeyspace.sessionId(key)!;
+            const pttl = pttls[index];
+            progress.scanned++;
+            const stored = pttl === -2 ? undefined : await readSession(key, payloads[index]);
+            // 扫描到读取之间过期的 key
+            if (stored === undefined) {
+                progress.expired++;
+                return;
+            }
+            if (stored === null) {
+                progress.skipped++;
+                return;
+            }
+            let payload: StoredSessionPayload | null;
+            try {
+                payload = await convert(stored, sessionId);
+            } catch (error) {
+                if (error instanceof SessionSignatureError || error instanceof SessionDecodeError) {
+                    progress.invalid++;
+                    return;
+                }
+                throw error;
+            }
+            if (payload === null) {
+                progress.skipped++;
+                return;
+            }
+            if (!options.dryRun) {
+                await writeSession(sessionId, payload, pttl);
+            }
+            progress.migrated++;
+        }));
+    };
+
+    // 用户索引整体复制；其中未迁移的会话会在下次列出该用户的会话时被清理
+    const migrateIndexBatch = async (keys: string[]) => {
+        await Promise.all(keys.map(async (key) => {
+            let members: string[];
+            try {
+                members = await sourceClient.smembers(key);
+            } catch (error) {
+                if (isWrongType(error)) {
+                    return;
+                }
+                throw error;
+            }
+            const pttl = await sourceClient.pttl(key);
+            if (members.length === 0 || pttl === -2) {
+                return;
+            }
+            if (!options.dryRun) {
+                const targetKey = targetKeyspace.userIndexKey(sourceKeyspace.userId(key)!);
+                await targetClient.sadd(targetKey, members);
+                if (pttl > 0) {
+                    await targetClient.expire(targetKey, Math.ceil(pttl / 1000));
+                }
+            }
+            progress.indexes++;
+        }));
+    };
+
+    let batches = 0;
+
+    const migratePhase = async (
+        phase: MigrationPhase,
+        scanCursor: string,
+        next: string,
+        pattern: string,
+        accept: (key: string) => boolean,
+        migrateBatch: (keys: string[]) => Promise<void>
+    ) => {
+        let batch: string[] = [];
+        let reported = false;
+
+        // 每个 SCAN 回复处理完后才推进游标，中断后从游标恢复不会漏掉会话
+        const flush = async (cursor: string) => {
+            if (batches++ > 0 && throttle > 0) {
+                await delay(throttle);
+            }
+            const keys = batch;
+            batch = [];
+            await migrateBatch(keys);
+            progress.cursor = cursor === '0' ? next : `${phase}:${cursor}`;
+            reported = true;
+            await options.onProgress?.({ ...progress });
+        };
+
+        for await (const key of sourceClient.scanIterator(pattern, batchSize, { cursor: scanCursor, onCursor: flush })) {
+            if (accept(key)) {
+                batch.push(key);
+            }
+        }
+        // 不支持游标的客户端不会回调 onCursor
+        if (!reported || batch.length > 0) {
+            await flush('0');
+        }
+    };
+
+    let { phase, scanCursor } = parseCursor(progress.cursor);
+    if (phase === 'sessions') {
+        await migratePhase(
+            'sessions',
+            scanCursor,
+            'indexes:0',
+            sourceKeyspace.pattern,
+            // 用户索引前缀位于会话前缀之下时，索引 key 也会被扫描到
+            (key) => sourceKeyspace.sessionId(key) !== undefined && sourceKeyspace.userId(key) === undefined,
+            migrateSessionBatch
+        );
+        ({ phase, scanCursor } = parseCursor(progress.cursor));
+    }
+    if (phase === 'indexes') {
+        await migratePhase(
+            'indexes',
+            scanCursor,
+            'done',
+            sourceKeyspace.userIndexPattern,
+            (key) => sourceKeyspace.userId(key) !== undefined,
+            migrateIndexBatch
+        );
+    }
+
+    return progress;
+}
@@ -0,0 +1,220 @@
+import { REDIS_COMMANDS } from './client';
+import type { NormalizedRedisClient } from './client';
+import { RedisCircuitOpenError, RedisCommandTimeoutError, isConnectionError } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface RedisRetryOptions {
+    /**
+     * Retries after the first attempt
+     * @default 2
+     */
+    attempts?: number;
+
+    /**
+     * Base delay in milliseconds, doubled on every retry
+     * @default 50
+     */
+    minDelay?: number;
+
+    /**
+     * Upper bound for a single delay in milliseconds
+     * @default 1000
+     */
+    maxDelay?: number;
+}
+
+export interface CircuitBreakerOptions {
+    /**
+     * Consecutive connection failures or timeouts that open the circuit
+     * @default 5
+     */
+    failureThreshold?: number;
+
+    /**
+     * Milliseconds the circuit stays open before a single trial command is let through
+     * @default 10000
+     */
+    resetTimeout?: number;
+
+    /**
+     * Called whenever the circuit changes state
+     */
+    onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export interface RedisResilienceOptions {
+    /**
+     * Milliseconds to wait for a reply before failing the command; 0 disables the timeout
+     * A timed-out command is not cancelled and may still run in Redis
+     * @default 1000
+     */
+    commandTimeout?: number;
+
+    /**
+     * Retries with jittered exponential backoff after a connection failure or timeout
+     * Only idempotent commands are retried: GET, MGET, HGETALL, SMEMBERS, TTL, PTTL, EXPIRE and CONFIG GET
+     * Set to false to disable retries
+     */
+    retry?: RedisRetryOptions | false;
+
+    /**
+     * Fail fast while Redis is unhealthy
+     * Set to false to disable the circuit breaker
+     */
+    circuitBreaker?: CircuitBreakerOptions | false;
+}
+
+export interface CircuitBreaker {
+    readonly state: CircuitState;
+    /**
+     * Consecutive failures counted towards opening the circuit
+     */
+    readonly failures: number;
+    /**
+     * Close the circuit by hand, e.g. after a failover
+     */
+    reset(): void;
+}
+
+export interface ResilientRedisClient extends NormalizedRedisClient {
+    readonly circuit: CircuitBreaker;
+}
+
+// EXPIRE 重复执行结果相同，其余均为只读命令
+const IDEMPOTENT_COMMANDS = new Set(['get', 'mget', 'hgetall', 'smembers', 'ttl', 'pttl', 'expire', 'configGet']);
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createCircuitBreaker(options: CircuitBreakerOptions | false): CircuitBreaker & {
+    acquire(command: string): void;
+    success(): void;
+    failure(): void;
+} {
+    const failureThreshold = options === false ? Infinity : options.failureThreshold ?? 5;
+    const resetTimeout = options === false ? 0 : options.resetTimeout ?? 10000;
+    const onStateChange = options === false ? undefined : options.onStateChange;
+
+    let state: CircuitState = 'closed';
+    let failures = 0;
+    let openedAt = 0;
+    let trialInFlight = false;
+
+    const transition = (next: CircuitState) => {
+        if (next === state) {
+            return;
+        }
+        const previous = state;
+        state = next;
+        onStateChange?.(next, previous);
+    };
+
+    return {
+        get state() {
+            // 打开状态超过 resetTimeout 后对外报告为半开
+            return state === 'open' && Date.now() - openedAt >= resetTimeout ? 'half-open' : state;
+        },
+
+        get failures() {
+            return failures;
+        },
+
+        reset() {
+            failures = 0;
+            trialInFlight = false;
+            transition('closed');
+        },
+
+        acquire(command) {
+            if (state === 'open' && Date.now() - openedAt >= resetTimeout) {
+                transition('half-open');
+            }
+            // 半开状态只放行一条试探命令
+            if (state === 'open' || (state === 'half-open' && trialInFlight)) {
+                throw new RedisCircuitOpenError(command);
+            }
+            if (state === 'half-open') {
+                trialInFlight = true;
+            }
+        },
+
+        success() {
+            // 熔断之前发出的命令可能晚于失败返回，不据此关闭熔断器
+            if (state === 'open') {
+                return;
+            }
+            failures = 0;
+            trialInFlight = false;
+            transition('closed');
+        },
+
+        failure() {
+            failures++;
+            trialInFlight = false;
+            if (state === 'half-open' || failures >= failureThreshold) {
+                openedAt = Date.now();
+                transition('open');
+            }
+        }
+    };
+}
+
+function withTimeout<T>(promise: Promise<T>, command: string, timeout: number): Promise<T> {
+    if (timeout <= 0) {
+        return promise;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new RedisCommandTimeoutError(command, timeout)), timeout);
+    });
+    return Promise.race([promise, timedOut]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Wrap a normalized client with per-command timeouts, retries for idempotent
+ * commands and a circuit breaker. scanIterator and subscribe are passed through.
+ */
+export function createResilientRedisClient(client: NormalizedRedisClient, options: RedisResilienceOptions = {}): ResilientRedisClient {
+    const commandTimeout = options.commandTimeout ?? 1000;
+    const retry = options.retry === false ? undefined : {
+        attempts: options.retry?.attempts ?? 2,
+        minDelay: options.retry?.minDelay ?? 50,
+        maxDelay: options.retry?.maxDelay ?? 1000
+    };
+    const circuit = createCircuitBreaker(options.circuitBreaker ?? {});
+
+    const execute = async (method: string, command: string, run: () => Promise<unknown>) => {
+        const attempts = retry && IDEMPOTENT_COMMANDS.has(method) ? retry.attempts : 0;
+        for (let attempt = 0; ; attempt++) {
+            circuit.acquire(command);
+            try {
+                const result = await withTimeout(run(), command, commandTimeout);
+                circuit.success();
+                return result;
+            } catch (error) {
+                // 只有连接类错误说明 Redis 不健康；错误回复（如 WRONGTYPE）重试也不会成功
+                if (!isConnectionError(error)) {
+                    circuit.success();
+                    throw error;
+                }
+                circuit.failure();
+                if (attempt >= attempts) {
+                    throw error;
+                }
+            }
+            // 指数退避加随机抖动，避免大量实例同时重试
+            const backoff = Math.min(retry!.maxDelay, retry!.minDelay * 2 ** attempt);
+            await delay(backoff / 2 + Math.random() * backoff / 2);
+        }
+    };
+
+    const resilient: Record<string, unknown> = { ...client, circuit };
+    for (const [method, command] of Object.entries(REDIS_COMMANDS)) {
+        const original = (client as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[method];
+        if (typeof original !== 'function') {
+            continue;
+        }
+        resilient[method] = (...args: unknown[]) => execute(method, command, () => original.apply(client, args));
+    }
+    return resilient as unknown as ResilientRedisClient;
+}
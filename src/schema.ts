@@ -0,0 +1,98 @@
+import { SessionValidationError } from './errors';
+
+/**
+ * Outcome of a validator; farrow-schema's ValidationResult has this shape
+ */
+export type SessionValidationResult<UserData> =
+    | { kind: 'Ok'; value: UserData }
+    | { kind: 'Err'; value: { message: string; path?: (string | number)[] } };
+
+/**
+ * Checks decoded session data, e.g. createSchemaValidator(UserSchema) from farrow-schema
+ * Return false or an Err result to reject the data; the value of an Ok result replaces it
+ */
+export type SessionValidator<UserData> = (data: unknown) => SessionValidationResult<UserData> | boolean;
+
+export interface SessionSchemaOptions<UserData> {
+    /**
+     * Schema version stamped on every payload written
+     * Payloads written before this option was enabled are version 0
+     */
+    version: number;
+
+    /**
+     * migrations[n] upgrades data stored with version n to version n + 1
+     * Missing steps leave the data unchanged
+     * @default {}
+     */
+    migrations?: Record<number, (data: any) => unknown>;
+
+    /**
+     * Runs after the migrations on every read
+     */
+    validate?: SessionValidator<UserData>;
+
+    /**
+     * What get does with data that fails validation or whose migration throws
+     * - 'miss': treat the session as missing and keep the stored data
+     * - 'destroy': treat the session as missing and delete it
+     * - 'throw': fail like any other decode error, following the onError option
+     * @default 'miss'
+     */
+    onInvalid?: 'miss' | 'destroy' | 'throw';
+}
+
+export interface UpgradedSession<UserData> {
+    data: UserData;
+    /**
+     * The data was stored with an older version and needs to be written back
+     */
+    migrated: boolean;
+}
+
+/**
+ * Migrate data stored with the given version to the current one and validate it.
+ * Throws SessionValidationError when a migration throws or validation fails.
+ */
+export function upgradeSessionData<UserData>(
+    schema: SessionSchemaOptions<UserData>,
+    sessionId: string,
+    data: unknown,
+    version: number
+): UpgradedSession<UserData> {
+    let upgraded = data;
+    // 比当前版本更新的数据（例如滚动发布期间由新版本写入）不做迁移，只做校验
+    for (let from = version; from < schema.version; from++) {
+        const migrate = schema.migrations?.[from];
+        if (!migrate) {
+            continue;
+        }
+        try {
+            upgraded = migrate(upgraded);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new SessionValidationError(`Session migration from version ${from} failed: ${reason}`, sessionId, error, version);
+        }
+    }
+
+    if (schema.validate) {
+        const result = schema.validate(upgraded);
+        if (result === false) {
+            throw new SessionValidationError('Session data failed validation', sessionId, undefined, version);
+        }
+        if (typeof result === 'object') {
+            if (result.kind === 'Err') {
+                throw new SessionValidationError(
+                    `Session data failed validation: ${result.value.message}`,
+                    sessionId,
+                    result.value,
+                    version,
+                    result.value.path
+                );
+            }
+            upgraded = result.value;
+        }
+    }
+
+    return { data: upgraded as UserData, migrated: version < schema.version };
+}
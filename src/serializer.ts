@@ -0,0 +1,120 @@
+/**
+ * Converts session data to and from the string stored in Redis.
+ * The name is recorded next to every value so the store can pick the
+ * matching serializer on read, even after switching to another one.
+ */
+export interface SessionSerializer {
+    /**
+     * Identifier written with each value, must match /^[\w.-]+$/
+     * 'json' and 'rich' are reserved for the built-in serializers
+     */
+    name: string;
+    encode(value: unknown): string;
+    decode(raw: string): unknown;
+}
+
+/**
+ * Plain JSON, the historical format. Values are written without a marker
+ * so older versions of this package can still read them.
+ */
+export const jsonSerializer: SessionSerializer = {
+    name: 'json',
+    encode: (value) => JSON.stringify(value),
+    decode: (raw) => JSON.parse(raw)
+};
+
+// 类型标记字段，用于在 JSON 中保留 Date、Map、Set、BigInt、undefined 等类型
+const TYPE_KEY = '$t';
+
+function toTagged(value: unknown): unknown {
+    if (value === undefined) {
+        return { [TYPE_KEY]: 'undefined' };
+    }
+    if (typeof value === 'bigint') {
+        return { [TYPE_KEY]: 'BigInt', v: value.toString() };
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+        return { [TYPE_KEY]: 'Number', v: String(value) };
+    }
+    if (typeof value === 'function' || typeof value === 'symbol') {
+        return null;
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (value instanceof Date) {
+        return { [TYPE_KEY]: 'Date', v: Number.isNaN(value.getTime()) ? null : value.toISOString() };
+    }
+    if (value instanceof Map) {
+        return { [TYPE_KEY]: 'Map', v: Array.from(value, ([k, v]) => [toTagged(k), toTagged(v)]) };
+    }
+    if (value instanceof Set) {
+        return { [TYPE_KEY]: 'Set', v: Array.from(value, toTagged) };
+    }
+    if (Array.isArray(value)) {
+        return value.map(toTagged);
+    }
+    if (typeof (value as any).toJSON === 'function') {
+        return toTagged((value as any).toJSON());
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        // 与 JSON.stringify 一致：对象中的函数和 symbol 会被忽略
+        if (typeof item === 'function' || typeof item === 'symbol') {
+            continue;
+        }
+        result[key] = toTagged(item);
+    }
+    // 用户数据本身含有类型标记字段时需要转义
+    return Object.prototype.hasOwnProperty.call(value, TYPE_KEY)
+        ? { [TYPE_KEY]: 'Object', v: result }
+        : result;
+}
+
+function fromEntries(value: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        result[key] = fromTagged(item);
+    }
+    return result;
+}
+
+function fromTagged(value: unknown): unknown {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(fromTagged);
+    }
+
+    const tagged = value as Record<string, any>;
+    switch (tagged[TYPE_KEY]) {
+        case 'undefined':
+            return undefined;
+        case 'BigInt':
+            return BigInt(tagged.v);
+        case 'Number':
+            return Number(tagged.v);
+        case 'Date':
+            return new Date(tagged.v ?? NaN);
+        case 'Map':
+            return new Map((tagged.v as [unknown, unknown][]).map(([k, v]) => [fromTagged(k), fromTagged(v)]));
+        case 'Set':
+            return new Set((tagged.v as unknown[]).map(fromTagged));
+        case 'Object':
+            return fromEntries(tagged.v);
+        default:
+            return fromEntries(tagged);
+    }
+}
+
+/**
+ * Type-preserving JSON that round-trips Date, Map, Set, BigInt,
+ * undefined, NaN and Infinity.
+ */
+export const richSerializer: SessionSerializer = {
+    name: 'rich',
+    encode: (value) => JSON.stringify(toTagged(value)),
+    decode: (raw) => fromTagged(JSON.parse(raw))
+};
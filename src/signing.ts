@@ -0,0 +1,94 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { readTag, writeTag } from './envelope';
+
+export interface SessionSigningOptions {
+    /**
+     * HMAC secrets indexed by key id
+     * Keep retired secrets here so sessions signed with them stay valid
+     */
+    keys: Record<string, Buffer | string>;
+
+    /**
+     * Id of the secret used to sign new writes
+     */
+    activeKeyId: string;
+
+    /**
+     * Accept values that carry no signature, e.g. while rolling out signing
+     * Leave disabled afterwards: an attacker can simply write unsigned data
+     * @default false
+     */
+    allowUnsigned?: boolean;
+
+    /**
+     * HMAC digest algorithm
+     * @default 'sha256'
+     */
+    algorithm?: string;
+}
+
+export type SignatureVerification =
+    | { valid: true; payload: string }
+    | { valid: false; reason: string };
+
+export interface SessionSigner {
+    sign(sessionId: string, payload: string): string;
+    verify(sessionId: string, raw: string): SignatureVerification;
+    /**
+     * Whether the value is signed with the active key, i.e. does not need re-signing before a retired key is removed
+     */
+    usesActiveKey(raw: string): boolean;
+}
+
+export function createSessionSigner(options: SessionSigningOptions): SessionSigner {
+    const algorithm = options.algorithm ?? 'sha256';
+    const keyring = new Map<string, Buffer>();
+    for (const [keyId, key] of Object.entries(options.keys)) {
+        if (!/^[\w-]+$/.test(keyId)) {
+            throw new Error(`Invalid signing key id: ${keyId}`);
+        }
+        keyring.set(keyId, typeof key === 'string' ? Buffer.from(key, 'utf8') : key);
+    }
+
+    if (!keyring.has(options.activeKeyId)) {
+        throw new Error(`Active signing key "${options.activeKeyId}" is not in the keyring`);
+    }
+
+    // 签名同时覆盖会话 ID，防止将其他会话的合法数据复制到自己的 key 下
+    const digest = (key: Buffer, sessionId: string, payload: string) =>
+        createHmac(algorithm, key).update(`${sessionId}\n${payload}`).digest();
+
+    return {
+        sign(sessionId: string, payload: string): string {
+            const mac = digest(keyring.get(options.activeKeyId)!, sessionId, payload).toString('base64url');
+            return writeTag('sig', payload, `${options.activeKeyId}.${mac}`);
+        },
+
+        verify(sessionId: string, raw: string): SignatureVerification {
+            const tag = readTag(raw, 'sig');
+            if (!tag) {
+                return options.allowUnsigned
+                    ? { valid: true, payload: raw }
+                    : { valid: false, reason: 'Session payload is not signed' };
+            }
+
+            const separator = (tag.param ?? '').indexOf('.');
+            const keyId = (tag.param ?? '').slice(0, separator);
+            const key = separator > 0 ? keyring.get(keyId) : undefined;
+            if (!key) {
+                return { valid: false, reason: `Unknown signing key id: ${keyId}` };
+            }
+
+            const actual = Buffer.from(tag.param!.slice(separator + 1), 'base64url');
+            const expected = digest(key, sessionId, tag.rest);
+            if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+                return { valid: false, reason: 'Session signature mismatch' };
+            }
+            return { valid: true, payload: tag.rest };
+        },
+
+        usesActiveKey(raw: string): boolean {
+            return readTag(raw, 'sig')?.param?.startsWith(`${options.activeKeyId}.`) ?? false;
+        }
+    };
+}
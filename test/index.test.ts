@@ -1,9 +1,30 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
-import { createContainer, runWithContainer } from 'farrow-pipeline';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { randomBytes } from 'crypto';
+import { createContainer, createContext, runWithContainer } from 'farrow-pipeline';
 import { sessionMetaDataCtx, createSessionCtx } from 'farrow-auth-session';
 import { createTestRedisClients, cleanupTestData, closeClients, createMockUserData, wait } from './setup';
-import { createRedisSessionStore, createNormalizedRedisClient } from '../src';
+import {
+    createRedisSessionStore,
+    createNormalizedRedisClient,
+    richSerializer,
+    SessionSignatureError,
+    SessionStoreConnectionError,
+    SessionDecodeError,
+    SessionValidationError,
+    SessionWriteError,
+    SESSION_METRICS,
+    createSessionExpiryListener,
+    createMetricsRecorder,
+    instrumentRedisClient,
+    createResilientRedisClient,
+    createFallbackSessionStore,
+    createMemorySessionStore,
+    migrateSessions,
+    RedisCommandTimeoutError,
+    RedisCircuitOpenError,
+} from '../src';
 import type { SessionStore } from 'farrow-auth-session';
+import type { RedisSessionStore, RedisSessionStoreOptions } from '../src';
 type UserData = {
     userId: string;
     username: string;
@@ -213,6 +234,11 @@ describe('fa-session-redis', () => {
                 
                 const newTtl = await normalized.ttl(key);
                 expect(newTtl).toBeLessThanOrEqual(5);
+
+                const pttl = await normalized.pttl(key);
+                expect(pttl).toBeGreaterThan(0);
+                expect(pttl).toBeLessThanOrEqual(5000);
+                expect(await normalized.pttl('test:ttl-missing')).toBe(-2);
             });
 
             it('should handle batch operations', async () => {
@@ -223,6 +249,18 @@ describe('fa-session-redis', () => {
                 expect(results).toEqual(['value1', 'value2', null]);
             });
 
+            it('should handle hash operations', async () => {
+                const key = 'test:hash';
+
+                const created = await normalized.hset(key, { a: '1', b: '2' });
+                expect(created).toBe(2);
+                expect(await normalized.hgetall(key)).toEqual({ a: '1', b: '2' });
+
+                expect(await normalized.hdel(key, ['a'])).toBe(1);
+                expect(await normalized.hgetall(key)).toEqual({ b: '2' });
+                expect(await normalized.hgetall('test:hash:missing')).toEqual({});
+            });
+
             it('should handle scan operations', async () => {
                 // Set up test data
                 for (let i = 0; i < 5; i++) {
@@ -261,6 +299,14 @@ describe('fa-session-redis', () => {
                 expect(deleted).toBe(1);
             });
 
+            it('should handle hash operations', async () => {
+                const key = 'test:node:hash';
+
+                expect(await normalized.hset(key, { a: '1', b: '2' })).toBe(2);
+                expect(await normalized.hdel(key, ['a'])).toBe(1);
+                expect(await normalized.hgetall(key)).toEqual({ b: '2' });
+            });
+
             it('should handle scan operations', async () => {
                 // Set up test data
                 for (let i = 0; i < 3; i++) {
@@ -291,6 +337,2621 @@ describe('fa-session-redis', () => {
         });
     });
 
+    /**
+     * Per-user Session Index Tests
+     */
+    describe('User Session Index', () => {
+        let store: RedisSessionStore<UserData>;
+
+        beforeEach(() => {
+            store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:users',
+                ttl: 3600,
+                getUserId: (data) => data.userId,
+            });
+        });
+
+        it('should list and destroy all sessions of a user', async () => {
+            const userData = createMockUserData();
+
+            const sessionIds: string[] = [];
+            for (let i = 0; i < 3; i++) {
+                await runWithContainer(async () => {
+                    await store.create(userData);
+                    sessionIds.push(sessionMetaDataCtx.get()!.sessionId);
+                }, createContainer());
+            }
+
+            const listed = await runWithContainer(() => store.listUserSessions(userData.userId), createContainer());
+            expect(listed.sort()).toEqual([...sessionIds].sort());
+
+            const destroyed = await runWithContainer(() => store.destroyUserSessions(userData.userId), createContainer());
+            expect(destroyed).toBe(3);
+
+            for (const sessionId of sessionIds) {
+                const retrieved = await runWithContainer(() => store.get(sessionId), createContainer());
+                expect(retrieved).toBeNull();
+            }
+            expect(await ioredisClient.exists(`test:users-user:${userData.userId}`)).toBe(0);
+        });
+
+        it('should keep sessions created while destroying in the index', async () => {
+            const userData = createMockUserData();
+            await runWithContainer(() => store.create(userData), createContainer());
+
+            // 在读取索引之后、清理索引之前登录的新会话
+            const listUserSessions = store.listUserSessions.bind(store);
+            let lateId = '';
+            vi.spyOn(store, 'listUserSessions').mockImplementationOnce(async (userId) => {
+                const listed = await listUserSessions(userId);
+                lateId = await runWithContainer(async () => {
+                    await store.create(userData);
+                    return sessionMetaDataCtx.get()!.sessionId;
+                }, createContainer());
+                return listed;
+            });
+
+            expect(await runWithContainer(() => store.destroyUserSessions(userData.userId), createContainer())).toBe(1);
+            expect(await ioredisClient.smembers(`test:users-user:${userData.userId}`)).toEqual([lateId]);
+            expect(await runWithContainer(() => store.destroyUserSessions(userData.userId), createContainer())).toBe(1);
+        });
+
+        it('should prune index entries for expired or reassigned sessions', async () => {
+            const userData = createMockUserData();
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            const otherId = await runWithContainer(async () => {
+                await store.create(userData);
+                const id = sessionMetaDataCtx.get()!.sessionId;
+                await store.set({ ...userData, userId: 'someone-else' });
+                return id;
+            }, createContainer());
+
+            await ioredisClient.del(`test:users:${sessionId}`);
+
+            const listed = await runWithContainer(() => store.listUserSessions(userData.userId), createContainer());
+            expect(listed).toEqual([]);
+
+            const members = await ioredisClient.smembers(`test:users-user:${userData.userId}`);
+            expect(members).toEqual([]);
+            expect(await ioredisClient.smembers('test:users-user:someone-else')).toEqual([otherId]);
+        });
+
+        it('should remove the session from the index on destroy', async () => {
+            const userData = createMockUserData();
+
+            await runWithContainer(async () => {
+                await store.create(userData);
+                await store.destroy();
+            }, createContainer());
+
+            const members = await ioredisClient.smembers(`test:users-user:${userData.userId}`);
+            expect(members).toEqual([]);
+        });
+
+        it('should require getUserId for user queries', async () => {
+            const plainStore = createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:users' });
+            await expect(plainStore.listUserSessions('any')).rejects.toThrow('getUserId');
+        });
+    });
+
+    /**
+     * Session Administration Tests
+     */
+    describe.each([
+        ['ioredis', () => ioredisClient],
+        ['node-redis', () => nodeRedisClient],
+    ])('Session Administration with %s client', (_, getClient) => {
+        let store: RedisSessionStore<UserData>;
+
+        beforeEach(() => {
+            store = createRedisSessionStore<UserData>(getClient(), {
+                prefix: 'test:admin',
+                ttl: 3600,
+            });
+        });
+
+        async function createSessions(count: number) {
+            const sessionIds: string[] = [];
+            for (let i = 0; i < count; i++) {
+                await runWithContainer(async () => {
+                    await store.create(createMockUserData());
+                    sessionIds.push(sessionMetaDataCtx.get()!.sessionId);
+                }, createContainer());
+            }
+            return sessionIds;
+        }
+
+        it('should list and count sessions with their TTL', async () => {
+            const sessionIds = await createSessions(5);
+
+            const records = await store.listSessions({ batchSize: 2 });
+            expect(records.map(r => r.sessionId).sort()).toEqual([...sessionIds].sort());
+            expect(records.every(r => r.ttl !== false && r.ttl > 0 && r.ttl <= 3600)).toBe(true);
+            expect(records.every(r => r.data.username === 'testuser')).toBe(true);
+
+            const limited = await store.listSessions({ limit: 3, batchSize: 2 });
+            expect(limited).toHaveLength(3);
+
+            expect(await store.countSessions()).toBe(5);
+        });
+
+        it('should inspect and destroy a session by id', async () => {
+            const [sessionId] = await createSessions(1);
+
+            const record = await store.getSessionById(sessionId);
+            expect(record?.sessionId).toBe(sessionId);
+            expect(record?.data.username).toBe('testuser');
+
+            expect(await store.destroySessionById(sessionId)).toBe(true);
+            expect(await store.getSessionById(sessionId)).toBeNull();
+            expect(await store.destroySessionById(sessionId)).toBe(false);
+        });
+    });
+
+    /**
+     * Serializer Tests
+     */
+    describe('Serializers', () => {
+        type RichData = {
+            lastSeen: Date;
+            scopes: Set<string>;
+            counters: Map<string, bigint>;
+            nickname?: string;
+        };
+
+        it('should preserve rich types with richSerializer', async () => {
+            const store = createRedisSessionStore<RichData>(ioredisClient, {
+                prefix: 'test:serializer',
+                serializer: richSerializer,
+            });
+            const data: RichData = {
+                lastSeen: new Date('2024-01-01T00:00:00.000Z'),
+                scopes: new Set(['read', 'write']),
+                counters: new Map([['visits', 12345678901234567890n]]),
+                nickname: undefined,
+            };
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(data);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            const raw = await ioredisClient.get(`test:serializer:${sessionId}`);
+            expect(raw.startsWith('$codec:rich$')).toBe(true);
+
+            const retrieved = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(retrieved).toEqual(data);
+            expect(retrieved!.lastSeen).toBeInstanceOf(Date);
+            expect('nickname' in retrieved!).toBe(true);
+        });
+
+        it('should read values written by another serializer', async () => {
+            const jsonStore = createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:serializer' });
+            const richStore = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:serializer',
+                serializer: richSerializer,
+            });
+            const userData = createMockUserData();
+
+            const jsonId = await runWithContainer(async () => {
+                await jsonStore.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            const richId = await runWithContainer(async () => {
+                await richStore.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            expect(await ioredisClient.get(`test:serializer:${jsonId}`)).toBe(JSON.stringify(userData));
+            expect(await runWithContainer(() => richStore.get(jsonId), createContainer())).toEqual(userData);
+            expect(await runWithContainer(() => jsonStore.get(richId), createContainer())).toEqual(userData);
+        });
+
+        it('should treat values from an unknown serializer as corrupt', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:serializer' });
+            await ioredisClient.set('test:serializer:unknown', '$codec:msgpack$AAAA');
+
+            const result = await runWithContainer(() => store.get('unknown'), createContainer());
+            expect(result).toBeUndefined();
+        });
+
+        it('should reject custom serializers that reuse a built-in name', () => {
+            const custom = { name: 'json', encode: (value: unknown) => String(value), decode: (raw: string) => raw };
+
+            expect(() => createRedisSessionStore(ioredisClient, { serializer: custom })).toThrow('reserved');
+            expect(() => createRedisSessionStore(ioredisClient, { legacySerializers: [{ ...custom, name: 'rich' }] })).toThrow('reserved');
+            expect(() => createRedisSessionStore(ioredisClient, { serializer: richSerializer, legacySerializers: [richSerializer] })).not.toThrow();
+        });
+    });
+
+    /**
+     * Encryption Tests
+     */
+    describe('Encryption', () => {
+        const oldKey = randomBytes(32);
+        const newKey = randomBytes(32).toString('base64');
+
+        it('should encrypt payloads and decrypt them on read', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:enc',
+                encryption: { keys: { k1: oldKey }, activeKeyId: 'k1' },
+            });
+            const userData = createMockUserData();
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            const raw: string = await ioredisClient.get(`test:enc:${sessionId}`);
+            expect(raw.startsWith('$enc:k1$')).toBe(true);
+            expect(raw).not.toContain(userData.email);
+
+            const retrieved = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(retrieved).toEqual(userData);
+        });
+
+        it('should read sessions encrypted with a rotated key and re-encrypt on save', async () => {
+            const oldStore = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:enc',
+                encryption: { keys: { k1: oldKey }, activeKeyId: 'k1' },
+            });
+            const rotatedStore = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:enc',
+                encryption: { keys: { k1: oldKey, k2: newKey }, activeKeyId: 'k2' },
+            });
+            const userData = createMockUserData();
+
+            const sessionId = await runWithContainer(async () => {
+                await oldStore.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            await runWithContainer(async () => {
+                const retrieved = await rotatedStore.get(sessionId);
+                expect(retrieved).toEqual(userData);
+                await rotatedStore.set(retrieved!);
+            }, createContainer());
+
+            const raw: string = await ioredisClient.get(`test:enc:${sessionId}`);
+            expect(raw.startsWith('$enc:k2$')).toBe(true);
+        });
+
+        it('should reject tampered ciphertext and invalid keys', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:enc',
+                encryption: { keys: { k1: oldKey }, activeKeyId: 'k1' },
+            });
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            const raw: string = await ioredisClient.get(`test:enc:${sessionId}`);
+            const payload = Buffer.from(raw.slice('$enc:k1$'.length), 'base64');
+            payload[payload.length - 1] ^= 0xff;
+            await ioredisClient.set(`test:enc:${sessionId}`, `$enc:k1$${payload.toString('base64')}`);
+
+            const result = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(result).toBeUndefined();
+
+            expect(() => createRedisSessionStore(ioredisClient, {
+                encryption: { keys: { short: randomBytes(16) }, activeKeyId: 'short' },
+            })).toThrow('32 bytes');
+        });
+
+        it('should not decrypt ciphertext copied from another session', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:enc',
+                encryption: { keys: { k1: oldKey }, activeKeyId: 'k1' },
+            });
+            const [adminId, userId] = await Promise.all([
+                { ...createMockUserData(), role: 'admin' as const },
+                createMockUserData(),
+            ].map((userData) => runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer())));
+
+            await ioredisClient.set(`test:enc:${userId}`, await ioredisClient.get(`test:enc:${adminId}`));
+
+            expect(await runWithContainer(() => store.get(userId), createContainer())).toBeUndefined();
+        });
+
+        it('should reject plaintext sessions unless allowPlaintext is set', async () => {
+            const userData = createMockUserData();
+            await ioredisClient.set('test:enc:plain', JSON.stringify(userData));
+            const strictStore = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:enc',
+                encryption: { keys: { k1: oldKey }, activeKeyId: 'k1' },
+            });
+            const rolloutStore = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:enc',
+                encryption: { keys: { k1: oldKey }, activeKeyId: 'k1', allowPlaintext: true },
+            });
+
+            expect(await runWithContainer(() => strictStore.get('plain'), createContainer())).toBeUndefined();
+            await runWithContainer(async () => {
+                const retrieved = await rolloutStore.get('plain');
+                expect(retrieved).toEqual(userData);
+                await rolloutStore.set(retrieved!);
+            }, createContainer());
+            expect((await ioredisClient.get('test:enc:plain')).startsWith('$enc:k1$')).toBe(true);
+        });
+    });
+
+    /**
+     * Signing Tests
+     */
+    describe('Signing', () => {
+        const signing = { keys: { s1: 'first-secret', s2: 'second-secret' }, activeKeyId: 's2' };
+
+        async function createSigned(store: RedisSessionStore<UserData>, userData: UserData) {
+            return runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+        }
+
+        it('should sign payloads and accept untouched sessions', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:sig', signing });
+            const userData = createMockUserData();
+            const sessionId = await createSigned(store, userData);
+
+            const raw: string = await ioredisClient.get(`test:sig:${sessionId}`);
+            expect(raw.startsWith('$sig:s2.')).toBe(true);
+
+            const retrieved = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(retrieved).toEqual(userData);
+        });
+
+        it('should treat tampered sessions as missing and report them', async () => {
+            const onInvalidSignature = vi.fn();
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:sig',
+                signing,
+                onInvalidSignature,
+            });
+            const sessionId = await createSigned(store, createMockUserData());
+
+            const raw: string = await ioredisClient.get(`test:sig:${sessionId}`);
+            await ioredisClient.set(`test:sig:${sessionId}`, raw.replace('"role":"user"', '"role":"admin"'));
+
+            const result = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(result).toBeNull();
+            expect(onInvalidSignature).toHaveBeenCalledTimes(1);
+            const error = onInvalidSignature.mock.calls[0][0];
+            expect(error).toBeInstanceOf(SessionSignatureError);
+            expect(error.sessionId).toBe(sessionId);
+        });
+
+        it('should reject unsigned and transplanted payloads', async () => {
+            const onInvalidSignature = vi.fn();
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:sig',
+                signing,
+                onInvalidSignature,
+            });
+            const victimId = await createSigned(store, { ...createMockUserData(), role: 'admin' });
+
+            await ioredisClient.set('test:sig:unsigned', JSON.stringify(createMockUserData()));
+            await ioredisClient.set('test:sig:attacker', await ioredisClient.get(`test:sig:${victimId}`));
+
+            expect(await runWithContainer(() => store.get('unsigned'), createContainer())).toBeNull();
+            expect(await runWithContainer(() => store.get('attacker'), createContainer())).toBeNull();
+            expect(onInvalidSignature).toHaveBeenCalledTimes(2);
+        });
+
+        it('should accept unsigned sessions during rollout when allowed', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:sig',
+                signing: { ...signing, allowUnsigned: true },
+            });
+            const userData = createMockUserData();
+            await ioredisClient.set('test:sig:legacy', JSON.stringify(userData));
+
+            const result = await runWithContainer(() => store.get('legacy'), createContainer());
+            expect(result).toEqual(userData);
+        });
+
+        describe('with hash storage', () => {
+            type ProfileData = UserData & { theme?: string };
+
+            const createHashStore = (activeKeyId = signing.activeKeyId, onInvalidSignature = vi.fn()) =>
+                createRedisSessionStore<ProfileData>(ioredisClient, {
+                    prefix: 'test:sig-hash',
+                    storage: 'hash',
+                    signing: { ...signing, activeKeyId },
+                    onInvalidSignature,
+                });
+
+            async function createHashSession(store: RedisSessionStore<ProfileData>, data: ProfileData) {
+                return runWithContainer(async () => {
+                    await store.create(data);
+                    return sessionMetaDataCtx.get()!.sessionId;
+                }, createContainer());
+            }
+
+            it('should reject sessions with a deleted or replayed field', async () => {
+                const onInvalidSignature = vi.fn();
+                const store = createHashStore(undefined, onInvalidSignature);
+                const deletedId = await createHashSession(store, { ...createMockUserData(), theme: 'dark' });
+                await ioredisClient.hdel(`test:sig-hash:${deletedId}`, 'theme');
+
+                const replayedId = await createHashSession(store, { ...createMockUserData(), theme: 'dark' });
+                const key = `test:sig-hash:${replayedId}`;
+                const oldRole: string = await ioredisClient.hget(key, 'role');
+                await runWithContainer(async () => {
+                    const data = await store.get(replayedId);
+                    expect(await store.set({ ...data!, role: 'banned' })).toBe(true);
+                }, createContainer());
+                await ioredisClient.hset(key, 'role', oldRole);
+
+                expect(await runWithContainer(() => store.get(deletedId), createContainer())).toBeNull();
+                expect(await runWithContainer(() => store.get(replayedId), createContainer())).toBeNull();
+                expect(onInvalidSignature).toHaveBeenCalledTimes(2);
+                expect(onInvalidSignature.mock.calls[0][0].message).toContain('manifest');
+            });
+
+            it('should keep the manifest valid across concurrent partial writes', async () => {
+                const store = createHashStore();
+                const userData: ProfileData = { ...createMockUserData(), theme: 'dark' };
+                const sessionId = await createHashSession(store, userData);
+
+                const containerA = createContainer();
+                const containerB = createContainer();
+                const dataA = await runWithContainer(() => store.get(sessionId), containerA);
+                const dataB = await runWithContainer(() => store.get(sessionId), containerB);
+
+                expect(await runWithContainer(() => store.set({ ...dataA!, username: 'renamed' }), containerA)).toBe(true);
+                expect(await runWithContainer(() => store.set({ ...dataB!, theme: 'light' }), containerB)).toBe(true);
+
+                const retrieved = await runWithContainer(() => store.get(sessionId), createContainer());
+                expect(retrieved).toEqual({ ...userData, username: 'renamed', theme: 'light' });
+            });
+
+            it('should re-sign unchanged fields after a key rotation', async () => {
+                const sessionId = await createHashSession(createHashStore('s1'), { ...createMockUserData(), theme: 'dark' });
+                const store = createHashStore('s2');
+
+                await runWithContainer(async () => {
+                    const data = await store.get(sessionId);
+                    expect(await store.set({ ...data!, theme: 'light' })).toBe(true);
+                }, createContainer());
+
+                const fields: Record<string, string> = await ioredisClient.hgetall(`test:sig-hash:${sessionId}`);
+                for (const [field, value] of Object.entries(fields)) {
+                    if (field !== '$rev') {
+                        expect(value.startsWith('$sig:s2.')).toBe(true);
+                    }
+                }
+            });
+        });
+    });
+
+    /**
+     * Compression Tests
+     */
+    describe('Compression', () => {
+        type CartData = UserData & { cart?: { sku: string; qty: number }[] };
+
+        const largeCart = () => Array.from({ length: 200 }, (_, i) => ({ sku: `SKU-${i % 10}`, qty: i }));
+
+        it.each(['gzip', 'brotli'] as const)('should compress large sessions with %s', async (algorithm) => {
+            const store = createRedisSessionStore<CartData>(ioredisClient, {
+                prefix: 'test:compress',
+                compression: { algorithm, threshold: 512 },
+            });
+            const data: CartData = { ...createMockUserData(), cart: largeCart() };
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(data);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            const raw: string = await ioredisClient.get(`test:compress:${sessionId}`);
+            expect(raw.startsWith(algorithm === 'gzip' ? '$gz$' : '$br$')).toBe(true);
+            expect(raw.length).toBeLessThan(JSON.stringify(data).length);
+
+            const retrieved = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(retrieved).toEqual(data);
+        });
+
+        it('should leave small sessions uncompressed and read existing plain sessions', async () => {
+            const store = createRedisSessionStore<CartData>(ioredisClient, {
+                prefix: 'test:compress',
+                compression: true,
+            });
+            const small = createMockUserData();
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(small);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            expect(await ioredisClient.get(`test:compress:${sessionId}`)).toBe(JSON.stringify(small));
+
+            const legacy = { ...createMockUserData(), cart: largeCart() };
+            await ioredisClient.set('test:compress:legacy', JSON.stringify(legacy));
+            const retrieved = await runWithContainer(() => store.get('legacy'), createContainer());
+            expect(retrieved).toEqual(legacy);
+        });
+    });
+
+    /**
+     * Hash Storage Tests
+     */
+    describe('Hash Storage', () => {
+        type ProfileData = UserData & { cart?: string[]; theme?: string };
+
+        let store: RedisSessionStore<ProfileData>;
+
+        beforeEach(() => {
+            store = createRedisSessionStore<ProfileData>(ioredisClient, {
+                prefix: 'test:hash',
+                ttl: 3600,
+                storage: 'hash',
+            });
+        });
+
+        it('should store one field per top-level key with a TTL', async () => {
+            const userData = createMockUserData();
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            const key = `test:hash:${sessionId}`;
+            const fields = await ioredisClient.hgetall(key);
+            expect(fields.username).toBe(JSON.stringify(userData.username));
+            expect(fields.$meta).toBeDefined();
+            expect(await ioredisClient.ttl(key)).toBeGreaterThan(0);
+
+            const retrieved = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(retrieved).toEqual(userData);
+        });
+
+        it('should only write changed and removed fields', async () => {
+            const userData: ProfileData = { ...createMockUserData(), theme: 'dark' };
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            const key = `test:hash:${sessionId}`;
+
+            await runWithContainer(async () => {
+                const loaded = await store.get(sessionId);
+
+                // 另一个请求并发修改了未被本请求触及的字段
+                await ioredisClient.hset(key, 'cart', JSON.stringify(['sku-1']));
+
+                const { theme, ...rest } = loaded!;
+                expect(theme).toBe('dark');
+                expect(await store.set({ ...rest, username: 'renamed' })).toBe(true);
+            }, createContainer());
+
+            const retrieved = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(retrieved).toEqual({ ...userData, theme: undefined, username: 'renamed', cart: ['sku-1'] });
+            expect('theme' in retrieved!).toBe(false);
+        });
+
+        it('should keep empty sessions and reject reserved field names', async () => {
+            const emptyStore = createRedisSessionStore<Record<string, unknown>>(ioredisClient, {
+                prefix: 'test:hash',
+                storage: 'hash',
+            });
+
+            await runWithContainer(async () => {
+                const created = await emptyStore.create({});
+                expect(created).toEqual({});
+
+                const sessionId = sessionMetaDataCtx.get()!.sessionId;
+                expect(await emptyStore.get(sessionId)).toEqual({});
+
+                expect(await emptyStore.set({ $meta: 'x' })).toBeUndefined();
+            }, createContainer());
+        });
+    });
+
+    /**
+     * Optimistic Concurrency Tests
+     */
+    describe('Optimistic Concurrency', () => {
+        type CounterData = { visits: number; tags: string[] };
+
+        async function createSession(store: RedisSessionStore<CounterData>, data: CounterData) {
+            return runWithContainer(async () => {
+                await store.create(data);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+        }
+
+        // 两个请求读取同一会话，第一个先保存，返回第二个请求的写入结果
+        async function raceWrites(
+            store: RedisSessionStore<CounterData>,
+            sessionId: string,
+            first: (data: CounterData) => CounterData,
+            second: (data: CounterData) => CounterData
+        ) {
+            const containerA = createContainer();
+            const containerB = createContainer();
+            const dataA = await runWithContainer(() => store.get(sessionId), containerA);
+            const dataB = await runWithContainer(() => store.get(sessionId), containerB);
+
+            expect(await runWithContainer(() => store.set(first(dataA!)), containerA)).toBe(true);
+            return runWithContainer(() => store.set(second(dataB!)), containerB);
+        }
+
+        it.each(['string', 'hash'] as const)('should reject conflicting writes with %s storage', async (storage) => {
+            const store = createRedisSessionStore<CounterData>(ioredisClient, {
+                prefix: 'test:occ',
+                storage,
+                concurrency: true,
+            });
+            const sessionId = await createSession(store, { visits: 0, tags: [] });
+
+            const result = await raceWrites(
+                store,
+                sessionId,
+                (data) => ({ ...data, visits: data.visits + 1 }),
+                (data) => ({ ...data, tags: ['b'] })
+            );
+            expect(result).toBe(false);
+
+            const stored = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(stored).toEqual({ visits: 1, tags: [] });
+        });
+
+        it('should merge conflicting writes', async () => {
+            const store = createRedisSessionStore<CounterData>(ioredisClient, {
+                prefix: 'test:occ',
+                concurrency: {
+                    onConflict: 'merge',
+                    merge: (local, remote) => ({
+                        visits: Math.max(local.visits, remote.visits),
+                        tags: [...new Set([...remote.tags, ...local.tags])],
+                    }),
+                },
+            });
+            const sessionId = await createSession(store, { visits: 0, tags: [] });
+
+            const result = await raceWrites(
+                store,
+                sessionId,
+                (data) => ({ ...data, visits: data.visits + 1, tags: ['a'] }),
+                (data) => ({ ...data, tags: [...data.tags, 'b'] })
+            );
+            expect(result).toBe(true);
+
+            const stored = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(stored).toEqual({ visits: 1, tags: ['a', 'b'] });
+        });
+
+        it('should overwrite with last-write-wins', async () => {
+            const store = createRedisSessionStore<CounterData>(ioredisClient, {
+                prefix: 'test:occ',
+                concurrency: { onConflict: 'last-write-wins' },
+            });
+            const sessionId = await createSession(store, { visits: 0, tags: [] });
+
+            const result = await raceWrites(
+                store,
+                sessionId,
+                (data) => ({ ...data, visits: 5 }),
+                (data) => ({ ...data, tags: ['b'] })
+            );
+            expect(result).toBe(true);
+
+            const stored = await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(stored).toEqual({ visits: 0, tags: ['b'] });
+        });
+
+        it('should not resurrect a session destroyed by another request', async () => {
+            const store = createRedisSessionStore<CounterData>(ioredisClient, {
+                prefix: 'test:occ',
+                concurrency: true,
+            });
+            const sessionId = await createSession(store, { visits: 0, tags: [] });
+
+            const container = createContainer();
+            const data = await runWithContainer(() => store.get(sessionId), container);
+            await store.destroySessionById(sessionId);
+
+            expect(await runWithContainer(() => store.set(data!), container)).toBe(false);
+            expect(await ioredisClient.exists(`test:occ:${sessionId}`)).toBe(0);
+        });
+
+        it('should require a merge function for the merge policy', () => {
+            expect(() => createRedisSessionStore(ioredisClient, {
+                concurrency: { onConflict: 'merge' },
+            })).toThrow('merge option is required');
+        });
+    });
+
+    /**
+     * Session Regeneration Tests
+     */
+    describe('Session Regeneration', () => {
+        it.each([
+            ['plain', {}],
+            ['signed', { signing: { keys: { s1: 'secret' }, activeKeyId: 's1' } }],
+            ['signed hash', { storage: 'hash' as const, signing: { keys: { s1: 'secret' }, activeKeyId: 's1' } }],
+            ['encrypted', { encryption: { keys: { k1: randomBytes(32) }, activeKeyId: 'k1' } }],
+            ['encrypted hash', { storage: 'hash' as const, encryption: { keys: { k1: randomBytes(32) }, activeKeyId: 'k1' } }],
+        ])('should move a %s session to a new id', async (_, extra) => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:regen',
+                ttl: 3600,
+                getUserId: (data) => data.userId,
+                ...extra,
+            });
+            const userData = createMockUserData();
+
+            const [oldId, newId, expiresTime] = await runWithContainer(async () => {
+                await store.create(userData);
+                const before = sessionMetaDataCtx.get()!;
+                await ioredisClient.expire(`test:regen:${before.sessionId}`, 1200);
+
+                expect(await store.regenerate()).toBe(true);
+                const after = sessionMetaDataCtx.get()!;
+                return [before.sessionId, after.sessionId, after.expiresTime];
+            }, createContainer());
+
+            expect(newId).not.toBe(oldId);
+            expect(expiresTime).toBeGreaterThan(Date.now());
+            expect(await ioredisClient.exists(`test:regen:${oldId}`)).toBe(0);
+            expect(await ioredisClient.ttl(`test:regen:${newId}`)).toBeLessThanOrEqual(1200);
+
+            expect(await runWithContainer(() => store.get(oldId), createContainer())).toBeNull();
+            expect(await runWithContainer(() => store.get(newId), createContainer())).toEqual(userData);
+            expect(await store.listUserSessions(userData.userId)).toEqual([newId]);
+        });
+
+        it('should return false without a stored session', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:regen' });
+
+            await runWithContainer(async () => {
+                expect(await store.regenerate()).toBe(false);
+
+                sessionMetaDataCtx.set({ sessionId: 'missing', expiresTime: Date.now() + 1000 });
+                expect(await store.regenerate()).toBe(false);
+                expect(sessionMetaDataCtx.get()?.sessionId).toBe('missing');
+            }, createContainer());
+        });
+    });
+
+    /**
+     * Absolute Lifetime Tests
+     */
+    describe('Absolute Lifetime', () => {
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it.each([
+            ['string', {}],
+            ['hash', { storage: 'hash' as const }],
+        ])('should cap rolling sessions at the absolute lifetime (%s storage)', async (_, extra) => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:absolute',
+                ttl: 3600,
+                rolling: true,
+                absoluteTtl: 1800,
+                ...extra,
+            });
+            const userData = createMockUserData();
+            const createdAt = Date.now();
+            vi.spyOn(Date, 'now').mockReturnValue(createdAt);
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            const key = `test:absolute:${sessionId}`;
+            expect(await ioredisClient.ttl(key)).toBeLessThanOrEqual(1800);
+
+            // 20 分钟后访问，滚动续期只能延长到剩余的 10 分钟
+            vi.spyOn(Date, 'now').mockReturnValue(createdAt + 1200 * 1000);
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toEqual(userData);
+                expect(sessionMetaDataCtx.get()!.expiresTime).toBeLessThanOrEqual(createdAt + 1800 * 1000);
+                expect(await store.touch!()).toBe(true);
+            }, createContainer());
+            expect(await ioredisClient.ttl(key)).toBeLessThanOrEqual(600);
+
+            vi.spyOn(Date, 'now').mockReturnValue(createdAt + 1800 * 1000);
+            expect(await runWithContainer(() => store.get(sessionId), createContainer())).toBeNull();
+            expect(await ioredisClient.exists(key)).toBe(0);
+        });
+
+        it('should refuse to save or touch an expired session', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:absolute',
+                ttl: 3600,
+                absoluteTtl: 60,
+            });
+            const createdAt = Date.now();
+            vi.spyOn(Date, 'now').mockReturnValue(createdAt);
+
+            await runWithContainer(async () => {
+                await store.create(createMockUserData());
+
+                vi.spyOn(Date, 'now').mockReturnValue(createdAt + 61 * 1000);
+                expect(await store.set(createMockUserData())).toBe(false);
+                expect(await store.touch!()).toBe(false);
+            }, createContainer());
+        });
+
+        it('should keep the creation time across set and regenerate', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:absolute',
+                ttl: 3600,
+                absoluteTtl: 1800,
+            });
+            const createdAt = Date.now();
+            vi.spyOn(Date, 'now').mockReturnValue(createdAt);
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                expect(await store.regenerate()).toBe(true);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            vi.spyOn(Date, 'now').mockReturnValue(createdAt + 1200 * 1000);
+            await runWithContainer(async () => {
+                sessionMetaDataCtx.set({ sessionId, expiresTime: Date.now() });
+                expect(await store.set(createMockUserData())).toBe(true);
+            }, createContainer());
+            expect(await ioredisClient.ttl(`test:absolute:${sessionId}`)).toBeLessThanOrEqual(600);
+        });
+
+        it('should start timing sessions stored without a creation time from their first read', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:absolute',
+                ttl: 3600,
+                absoluteTtl: 1800,
+            });
+            const userData = createMockUserData();
+            await ioredisClient.setex('test:absolute:legacy', 3600, JSON.stringify(userData));
+
+            await runWithContainer(async () => {
+                expect(await store.get('legacy')).toEqual(userData);
+                expect(await store.set(userData)).toBe(true);
+            }, createContainer());
+            expect(await ioredisClient.get('test:absolute:legacy')).toMatch(/^\$born:\d+\$/);
+            expect(await ioredisClient.ttl('test:absolute:legacy')).toBeLessThanOrEqual(1800);
+        });
+
+        it.each(['string', 'hash'] as const)('should persist the creation time of a %s session that is only read', async (storage) => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:absolute',
+                ttl: 3600,
+                absoluteTtl: 1800,
+                rolling: true,
+                storage,
+            });
+            const userData = createMockUserData();
+            const key = 'test:absolute:legacy';
+            if (storage === 'string') {
+                await ioredisClient.setex(key, 3600, JSON.stringify(userData));
+            } else {
+                await ioredisClient.hset(key, { ...Object.fromEntries(Object.entries(userData).map(([field, value]) => [field, JSON.stringify(value)])), $meta: '{}' });
+                await ioredisClient.expire(key, 3600);
+            }
+            const firstRead = Date.now();
+            vi.spyOn(Date, 'now').mockReturnValue(firstRead);
+            expect(await runWithContainer(() => store.get('legacy'), createContainer())).toEqual(userData);
+
+            // 每次请求都只读取，滚动续期不能超过首次读取起算的绝对生命周期
+            vi.spyOn(Date, 'now').mockReturnValue(firstRead + 1200 * 1000);
+            expect(await runWithContainer(() => store.get('legacy'), createContainer())).toEqual(userData);
+            expect(await ioredisClient.ttl(key)).toBeLessThanOrEqual(600);
+
+            vi.spyOn(Date, 'now').mockReturnValue(firstRead + 1800 * 1000);
+            expect(await runWithContainer(() => store.get('legacy'), createContainer())).toBeNull();
+        });
+
+        it('should reject a non-positive absoluteTtl', () => {
+            expect(() => createRedisSessionStore(ioredisClient, { absoluteTtl: 0 })).toThrow('absoluteTtl');
+        });
+    });
+
+    /**
+     * Expiry Reporting Tests
+     */
+    describe('Expiry Reporting', () => {
+        const readExpiresTime = (store: SessionStore<UserData, string>, sessionId: string) =>
+            runWithContainer(async () => {
+                expect(await store.get(sessionId)).not.toBeNull();
+                return sessionMetaDataCtx.get()!.expiresTime;
+            }, createContainer());
+
+        const createSession = (store: SessionStore<UserData, string>) =>
+            runWithContainer(async () => {
+                await store.create(createMockUserData());
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+        it('should report the remaining lifetime of fixed sessions', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:expiry', ttl: 3600 });
+            const sessionId = await createSession(store);
+            await ioredisClient.expire(`test:expiry:${sessionId}`, 100);
+
+            const expiresTime = await readExpiresTime(store, sessionId);
+            expect(expiresTime).toBeGreaterThan(Date.now() + 90 * 1000);
+            expect(expiresTime).toBeLessThanOrEqual(Date.now() + 100 * 1000);
+        });
+
+        it('should report the extended lifetime of rolling sessions', async () => {
+            const store = createRedisSessionStore<UserData>(nodeRedisClient, {
+                prefix: 'test:expiry',
+                ttl: 3600,
+                rolling: true,
+            });
+            const sessionId = await createSession(store);
+            await nodeRedisClient.expire(`test:expiry:${sessionId}`, 100);
+
+            expect(await readExpiresTime(store, sessionId)).toBeGreaterThan(Date.now() + 3500 * 1000);
+        });
+
+        it('should report sessions without expiry according to noExpiry', async () => {
+            const persistent = createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:expiry', ttl: false });
+            const weekly = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:expiry',
+                ttl: false,
+                noExpiry: 7 * 86400,
+            });
+            const sessionId = await createSession(weekly);
+
+            expect(await readExpiresTime(persistent, sessionId)).toBeGreaterThan(Date.now() + 364 * 24 * 3600 * 1000);
+            const expiresTime = await readExpiresTime(weekly, sessionId);
+            expect(expiresTime).toBeGreaterThan(Date.now() + 6 * 86400 * 1000);
+            expect(expiresTime).toBeLessThanOrEqual(Date.now() + 7 * 86400 * 1000);
+        });
+    });
+
+    /**
+     * Dynamic TTL Tests
+     */
+    describe('Dynamic TTL', () => {
+        type RememberData = UserData & { rememberMe?: boolean };
+        const rememberTtl = (data: RememberData) => data.rememberMe ? 30 * 86400 : 1800;
+
+        it.each([
+            ['string', {}],
+            ['hash', { storage: 'hash' as const }],
+        ])('should persist the ttl chosen for each session (%s storage)', async (_, extra) => {
+            const store = createRedisSessionStore<RememberData>(ioredisClient, {
+                prefix: 'test:dynamic',
+                ttl: rememberTtl,
+                rolling: true,
+                ...extra,
+            });
+            const userData = createMockUserData();
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            const key = `test:dynamic:${sessionId}`;
+            expect(await ioredisClient.ttl(key)).toBeLessThanOrEqual(1800);
+
+            // 会话中途勾选"记住我"
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toEqual(userData);
+                expect(await store.set({ ...userData, rememberMe: true })).toBe(true);
+            }, createContainer());
+            expect(await ioredisClient.ttl(key)).toBeGreaterThan(1800);
+
+            // touch 和滚动续期使用会话自身的 TTL
+            await ioredisClient.expire(key, 60);
+            await runWithContainer(async () => {
+                sessionMetaDataCtx.set({ sessionId, expiresTime: Date.now() });
+                expect(await store.touch!()).toBe(true);
+            }, createContainer());
+            expect(await ioredisClient.ttl(key)).toBeGreaterThan(1800);
+
+            await ioredisClient.expire(key, 60);
+            await runWithContainer(() => store.get(sessionId), createContainer());
+            expect(await ioredisClient.ttl(key)).toBeGreaterThan(1800);
+        });
+
+        it('should keep the user index alive as long as the longest session', async () => {
+            const store = createRedisSessionStore<RememberData>(ioredisClient, {
+                prefix: 'test:dynamic',
+                ttl: rememberTtl,
+                getUserId: (data) => data.userId,
+            });
+            const userData = createMockUserData();
+
+            await runWithContainer(() => store.create({ ...userData, rememberMe: true }), createContainer());
+            await runWithContainer(() => store.create(userData), createContainer());
+
+            expect(await ioredisClient.ttl(`test:dynamic-user:${userData.userId}`)).toBeGreaterThan(1800);
+            expect(await store.listUserSessions(userData.userId)).toHaveLength(2);
+        });
+
+        it('should fail to create a session when the ttl function returns an invalid value', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:dynamic',
+                ttl: () => 0,
+            });
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            expect(await runWithContainer(() => store.create(createMockUserData()), createContainer())).toBeUndefined();
+            consoleSpy.mockRestore();
+        });
+    });
+
+    /**
+     * Lifecycle Hooks Tests
+     */
+    describe('Lifecycle Hooks', () => {
+        it('should run hooks before listeners in a defined order', async () => {
+            const calls: string[] = [];
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:hooks',
+                ttl: 3600,
+                rolling: true,
+                hooks: {
+                    onCreate: async ({ sessionId }) => {
+                        await wait(5);
+                        calls.push(`hook:create:${sessionId}`);
+                    },
+                    onLoad: () => { calls.push('hook:load'); },
+                    onRenew: () => { calls.push('hook:renew'); },
+                    onSave: () => { calls.push('hook:save'); },
+                    onTouch: () => { calls.push('hook:touch'); },
+                    onDestroy: () => { calls.push('hook:destroy'); },
+                },
+            });
+            store.events
+                .on('create', ({ sessionId }) => { calls.push(`listener:create:${sessionId}`); })
+                .once('load', () => { calls.push('listener:load'); });
+
+            const sessionId = await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            await runWithContainer(async () => {
+                await store.get(sessionId);
+                await store.set(createMockUserData());
+                await store.touch!();
+                await store.get(sessionId);
+                await store.destroy();
+            }, createContainer());
+
+            expect(calls).toEqual([
+                `hook:create:${sessionId}`,
+                `listener:create:${sessionId}`,
+                'hook:renew',
+                'hook:load',
+                'listener:load',
+                'hook:save',
+                'hook:touch',
+                'hook:renew',
+                'hook:load',
+                'hook:destroy',
+            ]);
+        });
+
+        it('should remove a once listener by the original listener', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:hooks' });
+            const loaded = vi.fn();
+            store.events.once('load', loaded).off('load', loaded);
+
+            await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                await store.get(sessionMetaDataCtx.get()!.sessionId);
+            }, createContainer());
+
+            expect(loaded).not.toHaveBeenCalled();
+        });
+
+        it('should isolate failing hooks from the session operation', async () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const saved = vi.fn();
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:hooks',
+                hooks: {
+                    onSave: () => {
+                        throw new Error('audit log unavailable');
+                    },
+                },
+            });
+            store.events.on('save', saved);
+
+            await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                expect(await store.set(createMockUserData())).toBe(true);
+            }, createContainer());
+
+            expect(saved).toHaveBeenCalledTimes(1);
+            expect(consoleSpy).toHaveBeenCalledWith('Session save hook failed:', expect.any(Error));
+            consoleSpy.mockRestore();
+        });
+
+        it('should report failed operations through onError', async () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const onError = vi.fn();
+            const store = createRedisSessionStore<Record<string, unknown>>(ioredisClient, {
+                prefix: 'test:hooks',
+                storage: 'hash',
+                hooks: { onError },
+            });
+
+            await runWithContainer(async () => {
+                await store.create({});
+                expect(await store.set({ $meta: 'x' })).toBeUndefined();
+            }, createContainer());
+
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+                operation: 'set',
+                sessionId: expect.any(String),
+                error: expect.any(Error),
+            }));
+            consoleSpy.mockRestore();
+        });
+
+        it('should emit destroy for sessions removed by the admin methods', async () => {
+            const destroyed: string[] = [];
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:hooks',
+                getUserId: (data) => data.userId,
+                hooks: { onDestroy: ({ sessionId }) => { destroyed.push(sessionId); } },
+            });
+            const userData = createMockUserData();
+
+            const ids = await Promise.all([0, 1].map(() => runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer())));
+
+            expect(await store.destroySessionById(ids[0])).toBe(true);
+            expect(await store.destroyUserSessions(userData.userId)).toBe(1);
+            expect(destroyed).toEqual(ids);
+        });
+    });
+
+    /**
+     * Expiry Notification Tests
+     */
+    describe('Expiry Notifications', () => {
+        let originalFlags: string | null;
+
+        beforeAll(async () => {
+            originalFlags = await createNormalizedRedisClient(ioredisClient).configGet('notify-keyspace-events');
+        });
+
+        afterEach(async () => {
+            await createNormalizedRedisClient(ioredisClient).configSet('notify-keyspace-events', originalFlags ?? '');
+        });
+
+        const waitFor = async (condition: () => boolean, timeout = 5000) => {
+            const deadline = Date.now() + timeout;
+            while (!condition() && Date.now() < deadline) {
+                await wait(50);
+            }
+        };
+
+        it.each([
+            ['ioredis', () => ioredisClient],
+            ['node-redis', () => nodeRedisClient],
+        ])('should report sessions that expire in Redis (%s)', async (_, getClient) => {
+            const client = getClient();
+            const expired: string[] = [];
+            const listener = await createSessionExpiryListener(client, {
+                prefix: 'test:expire',
+                notifications: 'enable',
+                onExpire: (sessionId) => { expired.push(sessionId); },
+            });
+
+            try {
+                const store = createRedisSessionStore<UserData>(client, { prefix: 'test:expire', ttl: 1 });
+                const sessionId = await runWithContainer(async () => {
+                    await store.create(createMockUserData());
+                    return sessionMetaDataCtx.get()!.sessionId;
+                }, createContainer());
+                // 其他前缀的 key 过期不应触发回调
+                await client.set('test:expire-other', 'value');
+                await client.expire('test:expire-other', 1);
+
+                await waitFor(() => expired.length > 0);
+                expect(expired).toEqual([sessionId]);
+            } finally {
+                await listener.close();
+            }
+        });
+
+        it('should require expired events unless told to enable them', async () => {
+            await createNormalizedRedisClient(ioredisClient).configSet('notify-keyspace-events', '');
+
+            await expect(createSessionExpiryListener(ioredisClient, {
+                prefix: 'test:expire',
+                onExpire: () => {},
+            })).rejects.toThrow('notify-keyspace-events');
+
+            const listener = await createSessionExpiryListener(ioredisClient, {
+                prefix: 'test:expire',
+                notifications: 'enable',
+                onExpire: () => {},
+            });
+            await listener.close();
+            await listener.close();
+            expect(await createNormalizedRedisClient(ioredisClient).configGet('notify-keyspace-events')).toMatch(/E/);
+        });
+    });
+
+    /**
+     * Error Policy Tests
+     */
+    describe('Error Policy', () => {
+        const createLogger = () => ({
+            debug: vi.fn(),
+            info: vi.fn(),
+            warn: vi.fn(),
+            error: vi.fn(),
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('should log through the logger and return undefined by default', async () => {
+            const logger = createLogger();
+            const store = createRedisSessionStore<Record<string, unknown>>(ioredisClient, {
+                prefix: 'test:errors',
+                storage: 'hash',
+                logger,
+            });
+
+            await runWithContainer(async () => {
+                await store.create({});
+                expect(await store.set({ $meta: 'x' })).toBeUndefined();
+            }, createContainer());
+
+            expect(logger.error).toHaveBeenCalledWith('Failed to save session:', expect.any(SessionWriteError));
+        });
+
+        it('should filter messages below the log level', async () => {
+            const logger = createLogger();
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:errors',
+                logger,
+                logLevel: 'silent',
+            });
+            await ioredisClient.set('test:errors:broken', 'not-json{');
+
+            await runWithContainer(async () => {
+                expect(await store.get('broken')).toBeUndefined();
+            }, createContainer());
+
+            expect(logger.error).not.toHaveBeenCalled();
+        });
+
+        it('should reject with a decode error when onError is "throw"', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:errors',
+                onError: 'throw',
+            });
+            await ioredisClient.set('test:errors:broken', 'not-json{');
+
+            await runWithContainer(async () => {
+                const error = await store.get('broken').catch((reason) => reason);
+                expect(error).toBeInstanceOf(SessionDecodeError);
+                expect(error.sessionId).toBe('broken');
+                expect(error.cause).toBeInstanceOf(SyntaxError);
+            }, createContainer());
+        });
+
+        it('should pass connection failures to a custom handler', async () => {
+            const onError = vi.fn();
+            const errorEvents = vi.fn();
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:errors',
+                onError,
+            });
+            store.events.on('error', errorEvents);
+            vi.spyOn(ioredisClient, 'get').mockRejectedValue(
+                Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:6379'), { code: 'ECONNREFUSED' })
+            );
+
+            await runWithContainer(async () => {
+                expect(await store.get('any')).toBeUndefined();
+            }, createContainer());
+
+            expect(onError).toHaveBeenCalledWith(expect.any(SessionStoreConnectionError), 'get');
+            expect(onError.mock.calls[0][0].sessionId).toBe('any');
+            expect(errorEvents).toHaveBeenCalledWith(expect.objectContaining({
+                operation: 'get',
+                error: onError.mock.calls[0][0],
+            }));
+        });
+
+        it('should propagate errors thrown by the custom handler', async () => {
+            const store = createRedisSessionStore<Record<string, unknown>>(ioredisClient, {
+                prefix: 'test:errors',
+                storage: 'hash',
+                onError: (error) => {
+                    if (error instanceof SessionWriteError) {
+                        throw error;
+                    }
+                },
+            });
+
+            await runWithContainer(async () => {
+                await store.create({});
+                await expect(store.set({ $meta: 'x' })).rejects.toThrow('reserved');
+            }, createContainer());
+        });
+    });
+
+    describe('Telemetry', () => {
+        it('should count operations by outcome', async () => {
+            const recorder = createMetricsRecorder();
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:telemetry',
+                rolling: true,
+                telemetry: { meter: recorder },
+            });
+            await ioredisClient.set('test:telemetry:broken', 'not-json{');
+
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                const { sessionId } = sessionMetaDataCtx.get()!;
+                await store.get(sessionId);
+                await store.get('missing');
+                await store.get('broken');
+                await store.destroy();
+            }, createContainer());
+            consoleSpy.mockRestore();
+
+            const count = (operation: string, outcome: string) => recorder.getCounter(SESSION_METRICS.operations, {
+                'session.operation': operation,
+                'session.outcome': outcome,
+            });
+            expect(count('create', 'created')).toBe(1);
+            expect(count('get', 'hit')).toBe(1);
+            expect(count('get', 'miss')).toBe(1);
+            expect(count('get', 'corrupt')).toBe(1);
+            expect(count('destroy', 'destroyed')).toBe(1);
+            expect(recorder.getCounter(SESSION_METRICS.renewals, { 'session.renew.strategy': 'rolling' })).toBe(1);
+            expect(recorder.getHistogram(SESSION_METRICS.operationDuration, { 'session.operation': 'get' })).toHaveLength(3);
+        });
+
+        it('should record Redis command latency and payload sizes', async () => {
+            const recorder = createMetricsRecorder();
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:telemetry',
+                telemetry: { meter: recorder, tracer: recorder },
+            });
+            const userData = createMockUserData();
+
+            await runWithContainer(async () => {
+                await store.create(userData);
+                await store.get(sessionMetaDataCtx.get()!.sessionId);
+            }, createContainer());
+
+            const size = Buffer.byteLength(JSON.stringify(userData));
+            expect(recorder.getHistogram(SESSION_METRICS.payloadSize, { 'session.payload.direction': 'write' })).toEqual([size]);
+            expect(recorder.getHistogram(SESSION_METRICS.payloadSize, { 'session.payload.direction': 'read' })).toEqual([size]);
+            expect(recorder.getHistogram(SESSION_METRICS.commandDuration, { 'db.operation': 'SETEX' })).toHaveLength(1);
+            expect(recorder.getHistogram(SESSION_METRICS.commandDuration, { 'db.operation': 'GET' })).toHaveLength(1);
+            expect(recorder.spans.map((span) => span.name)).toEqual([
+                'session.create',
+                'redis.SETEX',
+                'session.get',
+                'redis.GET',
+                'redis.PTTL',
+            ]);
+            expect(recorder.spans.every((span) => span.ended)).toBe(true);
+        });
+
+        it('should mark failed Redis commands on the span and histogram', async () => {
+            const recorder = createMetricsRecorder();
+            const client = instrumentRedisClient(createNormalizedRedisClient(ioredisClient), {
+                meter: recorder,
+                tracer: recorder,
+            });
+            vi.spyOn(ioredisClient, 'get').mockRejectedValueOnce(new Error('connection lost'));
+
+            await expect(client.get('test:telemetry:any')).rejects.toThrow('connection lost');
+
+            expect(recorder.getHistogram(SESSION_METRICS.commandDuration, {
+                'db.operation': 'GET',
+                'session.redis.status': 'error',
+            })).toHaveLength(1);
+            expect(recorder.spans[0]).toMatchObject({
+                name: 'redis.GET',
+                status: { code: 2, message: 'connection lost' },
+                exceptions: [expect.any(Error)],
+            });
+            vi.restoreAllMocks();
+        });
+    });
+
+    describe('Read Cache', () => {
+        const stores: RedisSessionStore<UserData>[] = [];
+        const createCachedStore = (options: RedisSessionStoreOptions<UserData> = {}) => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:cache',
+                cache: true,
+                ...options,
+            });
+            stores.push(store);
+            return store;
+        };
+
+        afterEach(async () => {
+            await Promise.all(stores.splice(0).map((store) => store.close()));
+            vi.restoreAllMocks();
+        });
+
+        const createSession = (store: RedisSessionStore<UserData>, userData: UserData) => runWithContainer(async () => {
+            await store.create(userData);
+            return sessionMetaDataCtx.get()!.sessionId;
+        }, createContainer());
+
+        it('should serve repeated reads from memory', async () => {
+            const store = createCachedStore();
+            const userData = createMockUserData();
+            const sessionId = await createSession(store, userData);
+            const getSpy = vi.spyOn(ioredisClient, 'get');
+
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toEqual(userData);
+                expect(await store.get(sessionId)).toEqual(userData);
+                expect(sessionMetaDataCtx.get()!.expiresTime).toBeGreaterThan(Date.now());
+            }, createContainer());
+
+            expect(getSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should invalidate other instances when a session is saved or destroyed', async () => {
+            const reader = createCachedStore();
+            const writer = createCachedStore();
+            const sessionId = await createSession(writer, createMockUserData());
+            const updated = { ...createMockUserData(), username: 'updated' };
+
+            await runWithContainer(async () => {
+                await reader.get(sessionId);
+            }, createContainer());
+
+            await runWithContainer(async () => {
+                await writer.get(sessionId);
+                expect(await writer.set(updated)).toBe(true);
+            }, createContainer());
+            await wait(200);
+
+            await runWithContainer(async () => {
+                expect(await reader.get(sessionId)).toEqual(updated);
+            }, createContainer());
+
+            await runWithContainer(async () => {
+                await writer.get(sessionId);
+                expect(await writer.destroy()).toBe(true);
+            }, createContainer());
+            await wait(200);
+
+            await runWithContainer(async () => {
+                expect(await reader.get(sessionId)).toBeNull();
+            }, createContainer());
+        });
+
+        it('should not serve sessions past their TTL in Redis', async () => {
+            const store = createCachedStore({ ttl: 1, cache: { maxAge: 60 } });
+            const sessionId = await createSession(store, createMockUserData());
+
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).not.toBeNull();
+            }, createContainer());
+            await wait(1100);
+
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toBeNull();
+            }, createContainer());
+        });
+
+        it('should evict the least recently used session', async () => {
+            const store = createCachedStore({ cache: { maxEntries: 1 } });
+            const first = await createSession(store, createMockUserData());
+            const second = await createSession(store, createMockUserData());
+            const getSpy = vi.spyOn(ioredisClient, 'get');
+
+            await runWithContainer(async () => {
+                await store.get(first);
+                await store.get(second);
+                await store.get(first);
+            }, createContainer());
+
+            expect(getSpy).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    describe('Resilience', () => {
+        const connectionError = () => Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('should fail commands that exceed the timeout', async () => {
+            const client = createResilientRedisClient(createNormalizedRedisClient(ioredisClient), {
+                commandTimeout: 50,
+                retry: false,
+            });
+            vi.spyOn(ioredisClient, 'get').mockReturnValueOnce(new Promise(() => {}));
+
+            await expect(client.get('test:resilience:slow')).rejects.toBeInstanceOf(RedisCommandTimeoutError);
+        });
+
+        it('should retry idempotent commands after connection failures', async () => {
+            await ioredisClient.set('test:resilience:key', 'value');
+            const client = createResilientRedisClient(createNormalizedRedisClient(ioredisClient), {
+                retry: { attempts: 2, minDelay: 1, maxDelay: 5 },
+            });
+            const getSpy = vi.spyOn(ioredisClient, 'get')
+                .mockRejectedValueOnce(connectionError())
+                .mockRejectedValueOnce(connectionError());
+
+            expect(await client.get('test:resilience:key')).toBe('value');
+            expect(getSpy).toHaveBeenCalledTimes(3);
+            expect(client.circuit.failures).toBe(0);
+        });
+
+        it('should not retry writes or error replies', async () => {
+            const client = createResilientRedisClient(createNormalizedRedisClient(ioredisClient), {
+                retry: { minDelay: 1 },
+            });
+            const setSpy = vi.spyOn(ioredisClient, 'set').mockRejectedValueOnce(connectionError());
+            const replyError = Object.assign(new Error('WRONGTYPE Operation against a key'), { name: 'ReplyError' });
+            const getSpy = vi.spyOn(ioredisClient, 'get').mockRejectedValueOnce(replyError);
+
+            await expect(client.set('test:resilience:key', 'value')).rejects.toThrow('ECONNRESET');
+            await expect(client.get('test:resilience:key')).rejects.toThrow('WRONGTYPE');
+            expect(setSpy).toHaveBeenCalledTimes(1);
+            expect(getSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should open the circuit and close it after a successful trial', async () => {
+            const states: string[] = [];
+            const client = createResilientRedisClient(createNormalizedRedisClient(ioredisClient), {
+                retry: false,
+                circuitBreaker: {
+                    failureThreshold: 2,
+                    resetTimeout: 1000,
+                    onStateChange: (state) => states.push(state),
+                },
+            });
+            const getSpy = vi.spyOn(ioredisClient, 'get')
+                .mockRejectedValueOnce(connectionError())
+                .mockRejectedValueOnce(connectionError());
+
+            await expect(client.get('test:resilience:key')).rejects.toThrow('ECONNRESET');
+            await expect(client.get('test:resilience:key')).rejects.toThrow('ECONNRESET');
+            expect(client.circuit.state).toBe('open');
+
+            await expect(client.get('test:resilience:key')).rejects.toBeInstanceOf(RedisCircuitOpenError);
+            expect(getSpy).toHaveBeenCalledTimes(2);
+
+            vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+            expect(client.circuit.state).toBe('half-open');
+            expect(await client.get('test:resilience:key')).toBeNull();
+            expect(client.circuit.state).toBe('closed');
+            expect(states).toEqual(['open', 'half-open', 'closed']);
+        });
+
+        it('should expose the circuit on the store and report failures as connection errors', async () => {
+            const onError = vi.fn();
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:resilience',
+                resilience: { retry: false, circuitBreaker: { failureThreshold: 1 } },
+                onError,
+            });
+            vi.spyOn(ioredisClient, 'get').mockRejectedValueOnce(connectionError());
+
+            await runWithContainer(async () => {
+                expect(await store.get('any')).toBeUndefined();
+                expect(await store.get('any')).toBeUndefined();
+            }, createContainer());
+
+            expect(store.circuit?.state).toBe('open');
+            expect(onError).toHaveBeenCalledTimes(2);
+            expect(onError.mock.calls[1][0]).toBeInstanceOf(SessionStoreConnectionError);
+            expect(onError.mock.calls[1][0].cause).toBeInstanceOf(RedisCircuitOpenError);
+        });
+    });
+
+    describe('Fallback Store', () => {
+        const createStores = (options: Parameters<typeof createFallbackSessionStore>[2] = {}) => {
+            const primary = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:fallback',
+                onError: 'throw',
+            });
+            return createFallbackSessionStore<UserData>(primary, createMemorySessionStore<UserData>(), {
+                retryInterval: 0,
+                ...options,
+            });
+        };
+
+        // 模拟 Redis 不可用
+        const startOutage = () => {
+            const error = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+            for (const method of ['get', 'pttl', 'setex', 'del', 'expire']) {
+                vi.spyOn(ioredisClient, method).mockRejectedValue(error);
+            }
+        };
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('should serve sessions from the secondary and reconcile them on recovery', async () => {
+            const states: string[] = [];
+            const store = createStores({ onStateChange: (state) => states.push(state) });
+            const userData = createMockUserData();
+
+            startOutage();
+            const sessionId = await runWithContainer(async () => {
+                expect(await store.create(userData)).toEqual(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toEqual(userData);
+            }, createContainer());
+            expect(store.state).toBe('secondary');
+            expect(store.pending).toBe(1);
+
+            vi.restoreAllMocks();
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toEqual(userData);
+                expect(sessionMetaDataCtx.get()!.sessionId).toBe(sessionId);
+            }, createContainer());
+
+            expect(JSON.parse(await ioredisClient.get(`test:fallback:${sessionId}`))).toEqual(userData);
+            expect(store.state).toBe('primary');
+            expect(store.pending).toBe(0);
+            expect(states).toEqual(['secondary', 'primary']);
+        });
+
+        it('should drop sessions written during the outage with the discard policy', async () => {
+            const store = createStores({ onRecover: 'discard' });
+
+            startOutage();
+            const sessionId = await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            vi.restoreAllMocks();
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toBeNull();
+            }, createContainer());
+            expect(store.pending).toBe(0);
+        });
+
+        it('should replay logouts made during the outage', async () => {
+            const store = createStores();
+            const sessionId = await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            await runWithContainer(async () => {
+                await store.get(sessionId);
+                startOutage();
+                expect(await store.destroy()).toBe(true);
+                expect(await store.get(sessionId)).toBeNull();
+            }, createContainer());
+
+            vi.restoreAllMocks();
+            await runWithContainer(async () => {
+                expect(await store.reconcile()).toBe(1);
+            }, createContainer());
+
+            expect(await ioredisClient.get(`test:fallback:${sessionId}`)).toBeNull();
+        });
+
+        it('should keep users logged in whose sessions were read before the outage', async () => {
+            const store = createStores();
+            const userData = createMockUserData();
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            const updated = { ...userData, role: 'admin' };
+            await runWithContainer(async () => {
+                await store.get(sessionId);
+                expect(await store.set(updated)).toBe(true);
+            }, createContainer());
+
+            startOutage();
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toEqual(updated);
+            }, createContainer());
+            expect(store.state).toBe('secondary');
+            expect(store.pending).toBe(0);
+        });
+
+        it('should keep a session pending while the primary rejects it', async () => {
+            const primary = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:fallback',
+                onError: 'throw',
+            });
+            const store = createFallbackSessionStore<UserData>(primary, createMemorySessionStore<UserData>(), {
+                retryInterval: 0,
+            });
+            const userData = createMockUserData();
+
+            startOutage();
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            vi.restoreAllMocks();
+            vi.spyOn(primary, 'restore').mockResolvedValue(false);
+            await runWithContainer(async () => {
+                expect(await store.reconcile()).toBe(0);
+                expect(await store.get(sessionId)).toEqual(userData);
+            }, createContainer());
+            expect(store.pending).toBe(1);
+        });
+
+        it('should restore sessions created during the outage when the primary has an absolute lifetime', async () => {
+            const primary = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:fallback',
+                ttl: 3600,
+                absoluteTtl: 7200,
+                onError: 'throw',
+            });
+            const store = createFallbackSessionStore<UserData>(primary, createMemorySessionStore<UserData>(), {
+                retryInterval: 0,
+            });
+            const userData = createMockUserData();
+
+            startOutage();
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            vi.restoreAllMocks();
+            await runWithContainer(async () => {
+                expect(await store.reconcile()).toBe(1);
+            }, createContainer());
+
+            expect(store.pending).toBe(0);
+            expect(await runWithContainer(() => primary.get(sessionId), createContainer())).toEqual(userData);
+            expect(await ioredisClient.ttl(`test:fallback:${sessionId}`)).toBeGreaterThan(3500);
+        });
+
+        it('should not write back sessions revoked in the primary before the outage', async () => {
+            const primary = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:fallback',
+                onError: 'throw',
+            });
+            const store = createFallbackSessionStore<UserData>(primary, createMemorySessionStore<UserData>(), {
+                retryInterval: 0,
+            });
+            const userData = createMockUserData();
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            expect(await primary.destroySessionById(sessionId)).toBe(true);
+
+            startOutage();
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toEqual(userData);
+                expect(await store.set({ ...userData, role: 'admin' })).toBe(true);
+            }, createContainer());
+
+            vi.restoreAllMocks();
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toBeNull();
+            }, createContainer());
+            expect(store.pending).toBe(0);
+            expect(await ioredisClient.exists(`test:fallback:${sessionId}`)).toBe(0);
+        });
+
+        it('should evict sessions revoked in the primary from the secondary', async () => {
+            const primary = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:fallback',
+                onError: 'throw',
+            });
+            const store = createFallbackSessionStore<UserData>(primary, createMemorySessionStore<UserData>(), {
+                retryInterval: 0,
+            });
+            primary.events.on('destroy', ({ sessionId }) => store.evict([sessionId]));
+            const sessionId = await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            await primary.destroySessionById(sessionId);
+
+            startOutage();
+            await runWithContainer(async () => {
+                expect(await store.get(sessionId)).toBeNull();
+            }, createContainer());
+        });
+
+        it('should cap mirrored copies at the expiry of the primary session', async () => {
+            const primary = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:fallback',
+                ttl: 60,
+                onError: 'throw',
+            });
+            const secondary = createMemorySessionStore<UserData>();
+            const expireAt = vi.spyOn(secondary, 'expireAt');
+            const store = createFallbackSessionStore<UserData>(primary, secondary, { retryInterval: 0 });
+
+            const [sessionId, expiresTime] = await runWithContainer(async () => {
+                await store.create(createMockUserData());
+                const meta = sessionMetaDataCtx.get()!;
+                return [meta.sessionId, meta.expiresTime];
+            }, createContainer());
+
+            expect(expireAt).toHaveBeenCalledWith(sessionId, expiresTime);
+            expect(expiresTime).toBeLessThanOrEqual(Date.now() + 60000);
+        });
+
+        it('should bound the pending list, forgetting the oldest write first', async () => {
+            const store = createStores({ maxPending: 2 });
+
+            startOutage();
+            const [first, second] = await runWithContainer(async () => {
+                const ids: string[] = [];
+                for (let i = 0; i < 3; i++) {
+                    await store.create(createMockUserData());
+                    ids.push(sessionMetaDataCtx.get()!.sessionId);
+                }
+                return ids;
+            }, createContainer());
+            await runWithContainer(async () => {
+                sessionMetaDataCtx.set({ sessionId: second, expiresTime: 0 });
+                await store.destroy();
+            }, createContainer());
+
+            expect(store.pending).toBe(2);
+            vi.restoreAllMocks();
+            await runWithContainer(async () => {
+                expect(await store.get(first)).toBeNull();
+            }, createContainer());
+        });
+
+        it('should stay on the secondary until the retry interval has passed', async () => {
+            const store = createStores({ retryInterval: 60000 });
+
+            startOutage();
+            await runWithContainer(async () => {
+                await store.get('first');
+                await store.get('second');
+            }, createContainer());
+
+            expect(ioredisClient.get).toHaveBeenCalledTimes(1);
+            expect(store.state).toBe('secondary');
+        });
+    });
+
+    describe('Redis Cluster', () => {
+        // 以单机连接模拟集群客户端：命令照常转发给原连接，SCAN 由给定的主节点完成
+        const fakeIoRedisCluster = (masters: unknown[]) => new Proxy(ioredisClient, {
+            get(target, property) {
+                if (property === 'isCluster') {
+                    return true;
+                }
+                if (property === 'nodes') {
+                    return () => masters;
+                }
+                const value = Reflect.get(target, property);
+                return typeof value === 'function' ? value.bind(target) : value;
+            },
+        });
+
+        const fakeNodeRedisCluster = () => new Proxy(nodeRedisClient, {
+            get(target, property) {
+                if (property === 'masters') {
+                    return [{ id: 'master-1' }];
+                }
+                if (property === 'nodeClient') {
+                    return async () => nodeRedisClient;
+                }
+                if (property === 'scanIterator') {
+                    return undefined;
+                }
+                const value = Reflect.get(target, property);
+                return typeof value === 'function' ? value.bind(target) : value;
+            },
+        });
+
+        const collect = async (iterable: AsyncIterable<string>) => {
+            const keys: string[] = [];
+            for await (const key of iterable) {
+                keys.push(key);
+            }
+            return keys.sort();
+        };
+
+        beforeEach(async () => {
+            await cleanupTestData(ioredisClient, '{test:cluster}*');
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('should detect ioredis clusters and scan every master', async () => {
+            await ioredisClient.set('test:cluster:a', '1');
+            const otherMaster = { scan: async () => ['0', ['test:cluster:b']], mget: async () => [] };
+            const client = createNormalizedRedisClient(fakeIoRedisCluster([ioredisClient, otherMaster]));
+
+            expect(client.cluster).toBe(true);
+            expect(client.database).toBe(0);
+            expect(await collect(client.scanIterator('test:cluster:*', 100))).toEqual(['test:cluster:a', 'test:cluster:b']);
+        });
+
+        it('should run multi-key commands one key at a time', async () => {
+            await ioredisClient.set('test:cluster:a', '1');
+            await ioredisClient.set('test:cluster:b', '2');
+            const client = createNormalizedRedisClient(fakeIoRedisCluster([ioredisClient]));
+            const mgetSpy = vi.spyOn(ioredisClient, 'mget');
+
+            expect(await client.mget(['test:cluster:a', 'test:cluster:missing', 'test:cluster:b'])).toEqual(['1', null, '2']);
+            expect(mgetSpy).not.toHaveBeenCalled();
+            expect(await client.del(['test:cluster:a', 'test:cluster:b', 'test:cluster:missing'])).toBe(2);
+        });
+
+        it('should detect node-redis clusters', async () => {
+            const client = createNormalizedRedisClient(fakeNodeRedisCluster());
+            expect(client.cluster).toBe(true);
+
+            const store = createRedisSessionStore<UserData>(fakeNodeRedisCluster(), { prefix: 'test:cluster' });
+            const userData = createMockUserData();
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            expect(await store.listSessions()).toEqual([
+                expect.objectContaining({ sessionId, data: userData }),
+            ]);
+        });
+
+        it('should keep every session in one slot with the single-slot layout', async () => {
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:cluster',
+                keyLayout: 'single-slot',
+                getUserId: (data) => data.userId,
+            });
+            const userData = createMockUserData();
+            const sessionId = await runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            expect(await ioredisClient.exists(`{test:cluster}:${sessionId}`)).toBe(1);
+            expect(await ioredisClient.smembers(`{test:cluster}-user:${userData.userId}`)).toEqual([sessionId]);
+            expect(await store.getSessionById(sessionId)).toEqual(expect.objectContaining({ data: userData }));
+        });
+
+        it('should regenerate without multi-key scripts on a cluster', async () => {
+            const store = createRedisSessionStore<UserData>(fakeIoRedisCluster([ioredisClient]), {
+                prefix: 'test:cluster',
+                ttl: 3600,
+            });
+            const userData = createMockUserData();
+
+            const [oldId, newId] = await runWithContainer(async () => {
+                await store.create(userData);
+                const before = sessionMetaDataCtx.get()!.sessionId;
+                await ioredisClient.expire(`test:cluster:${before}`, 1200);
+                const evalSpy = vi.spyOn(ioredisClient, 'eval');
+
+                expect(await store.regenerate()).toBe(true);
+                // ioredis 的 eval 第二个参数是 key 的数量
+                expect(evalSpy.mock.calls.every((call) => call[1] === 1)).toBe(true);
+                return [before, sessionMetaDataCtx.get()!.sessionId];
+            }, createContainer());
+
+            expect(newId).not.toBe(oldId);
+            expect(await ioredisClient.exists(`test:cluster:${oldId}`)).toBe(0);
+            expect(await ioredisClient.ttl(`test:cluster:${newId}`)).toBeGreaterThan(1100);
+            expect(await ioredisClient.ttl(`test:cluster:${newId}`)).toBeLessThanOrEqual(1200);
+            expect(await runWithContainer(() => store.get(newId), createContainer())).toEqual(userData);
+        });
+    });
+
+    describe('Read Replicas', () => {
+        // 副本与主节点指向同一个数据库，通过 spy 观察读取落在哪个客户端上
+        const createStores = (options: RedisSessionStoreOptions<UserData> = {}) => {
+            const replica = createNormalizedRedisClient(ioredisClient);
+            const store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:replica',
+                readClient: replica,
+                ...options,
+            });
+            return { store, replica };
+        };
+
+        const createSession = (store: RedisSessionStore<UserData>, userData: UserData) =>
+            runWithContainer(async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('should read sessions from the replica', async () => {
+            const { store, replica } = createStores();
+            const userData = createMockUserData();
+            const sessionId = await createSession(store, userData);
+            const replicaGet = vi.spyOn(replica, 'get');
+            const replicaPttl = vi.spyOn(replica, 'pttl');
+
+            expect(await runWithContainer(() => store.get(sessionId), createContainer())).toEqual(userData);
+            expect(replicaGet).toHaveBeenCalledTimes(1);
+            expect(replicaPttl).toHaveBeenCalledTimes(1);
+        });
+
+        it('should read from the primary after a write in the same request', async () => {
+            const { store, replica } = createStores();
+            const userData = createMockUserData();
+            // 模拟复制延迟：副本上还没有新会话
+            const replicaGet = vi.spyOn(replica, 'get').mockResolvedValue(null);
+
+            await runWithContainer(async () => {
+                await store.create(userData);
+                const sessionId = sessionMetaDataCtx.get()!.sessionId;
+                expect(await store.get(sessionId)).toEqual(userData);
+            }, createContainer());
+
+            expect(replicaGet).not.toHaveBeenCalled();
+        });
+
+        it('should send TTL changes and deletes to the primary', async () => {
+            const { store, replica } = createStores({ ttl: 3600, rolling: true });
+            const sessionId = await createSession(store, createMockUserData());
+            const replicaSpies = [vi.spyOn(replica, 'expire'), vi.spyOn(replica, 'setex'), vi.spyOn(replica, 'del')];
+
+            await runWithContainer(async () => {
+                await store.get(sessionId);
+                expect(await store.touch!()).toBe(true);
+                expect(await store.destroy()).toBe(true);
+            }, createContainer());
+
+            for (const spy of replicaSpies) {
+                expect(spy).not.toHaveBeenCalled();
+            }
+            expect(await ioredisClient.exists(`test:replica:${sessionId}`)).toBe(0);
+        });
+
+        it('should run admin reads on the replica', async () => {
+            const { store, replica } = createStores();
+            const userData = createMockUserData();
+            const sessionId = await createSession(store, userData);
+            const scanSpy = vi.spyOn(replica, 'scanIterator');
+            const ttlSpy = vi.spyOn(replica, 'ttl');
+
+            expect(await store.countSessions()).toBe(1);
+            expect((await store.listSessions()).map((record) => record.sessionId)).toEqual([sessionId]);
+            expect(await store.getSessionById(sessionId)).toEqual(expect.objectContaining({ data: userData }));
+            expect(scanSpy).toHaveBeenCalledTimes(2);
+            expect(ttlSpy).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('Namespaces', () => {
+        const tenantCtx = createContext('acme');
+
+        const createTenantStore = (options: RedisSessionStoreOptions<UserData> = {}) =>
+            createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:tenant',
+                namespace: () => tenantCtx.get(),
+                ...options,
+            });
+
+        const inTenant = <T>(tenant: string, run: () => Promise<T>) =>
+            runWithContainer(async () => {
+                tenantCtx.set(tenant);
+                return run();
+            }, createContainer());
+
+        const createSession = (store: RedisSessionStore<UserData>, tenant: string, userData = createMockUserData()) =>
+            inTenant(tenant, async () => {
+                await store.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            });
+
+        it('should keep the sessions of each tenant apart', async () => {
+            const store = createTenantStore();
+            const userData = createMockUserData();
+            const sessionId = await createSession(store, 'acme', userData);
+
+            expect(await ioredisClient.exists(`test:tenant:acme:${sessionId}`)).toBe(1);
+            expect(await inTenant('acme', () => store.get(sessionId))).toEqual(userData);
+            expect(await inTenant('globex', () => store.get(sessionId))).toBeNull();
+        });
+
+        it('should scope admin operations to a namespace', async () => {
+            const store = createTenantStore();
+            const acmeId = await createSession(store, 'acme');
+            await createSession(store, 'acme');
+            const globexId = await createSession(store, 'globex');
+
+            expect(await store.countSessions({ namespace: 'acme' })).toBe(2);
+            expect((await store.listSessions({ namespace: 'globex' })).map((record) => record.sessionId)).toEqual([globexId]);
+            expect(await store.getSessionById(acmeId, { namespace: 'globex' })).toBeNull();
+            expect(await store.destroySessionById(acmeId, { namespace: 'acme' })).toBe(true);
+            // 请求内不指定时使用解析出的命名空间
+            expect(await inTenant('acme', () => store.countSessions())).toBe(1);
+        });
+
+        it('should scope the user index to a namespace', async () => {
+            const store = createTenantStore({ getUserId: (data) => data.userId });
+            const userData = createMockUserData();
+            const acmeId = await createSession(store, 'acme', userData);
+            const globexId = await createSession(store, 'globex', userData);
+
+            expect(await ioredisClient.smembers(`test:tenant-user:acme:${userData.userId}`)).toEqual([acmeId]);
+            expect(await store.destroyUserSessions(userData.userId, { namespace: 'acme' })).toBe(1);
+            expect(await store.listUserSessions(userData.userId, { namespace: 'globex' })).toEqual([globexId]);
+        });
+
+        it('should keep user indexes out of a tenant named after another tenant\'s index', async () => {
+            const store = createTenantStore({ getUserId: (data) => data.userId });
+            await createSession(store, 'acme');
+
+            expect(await store.countSessions({ namespace: 'acme-user' })).toBe(0);
+            expect(await store.listSessions({ namespace: 'acme-user' })).toEqual([]);
+        });
+
+        it('should reject namespaces that could match other keys', async () => {
+            const store = createTenantStore({ onError: 'throw' });
+
+            await expect(store.countSessions({ namespace: '*' })).rejects.toThrow('Invalid session namespace');
+            await expect(inTenant('acme:admin', () => store.create(createMockUserData()))).rejects.toThrow('Invalid session namespace');
+            await expect(createRedisSessionStore<UserData>(ioredisClient, { prefix: 'test:tenant' }).countSessions({ namespace: 'acme' }))
+                .rejects.toThrow('The namespace option is required');
+        });
+
+        it('should handle namespace failures in get, regenerate and touch according to onError', async () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const store = createTenantStore();
+            const errors: string[] = [];
+            store.events.on('error', ({ operation }) => {
+                errors.push(operation);
+            });
+
+            await inTenant('acme:admin', async () => {
+                expect(await store.get('some-id')).toBeUndefined();
+                sessionMetaDataCtx.set({ sessionId: 'some-id', expiresTime: Date.now() + 1000 });
+                expect(await store.regenerate()).toBeUndefined();
+                expect(await store.touch()).toBeUndefined();
+            });
+
+            expect(errors).toEqual(['get', 'regenerate', 'touch']);
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe('Schema Migrations', () => {
+        type ProfileData = { name: string; displayName?: string; tags?: string[] };
+
+        const migrations = {
+            0: (data: any) => ({ ...data, displayName: data.name }),
+            1: (data: any) => ({ ...data, tags: [] }),
+        };
+
+        // 类似 farrow-schema 的 createSchemaValidator 返回的结果
+        const validate = (data: any) => typeof data?.name === 'string'
+            ? { kind: 'Ok' as const, value: data as ProfileData }
+            : { kind: 'Err' as const, value: { message: 'name is required', path: ['name'] } };
+
+        const createSchemaStore = (options: RedisSessionStoreOptions<ProfileData> = {}) =>
+            createRedisSessionStore<ProfileData>(ioredisClient, {
+                prefix: 'test:schema',
+                ttl: 3600,
+                schema: { version: 2, migrations, validate },
+                ...options,
+            });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('should stamp the schema version on new payloads', async () => {
+            const store = createSchemaStore();
+            const sessionId = await runWithContainer(async () => {
+                await store.create({ name: 'Ann' });
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+
+            expect(await ioredisClient.get(`test:schema:${sessionId}`)).toBe('$ver:2${"name":"Ann"}');
+        });
+
+        it('should migrate old payloads on read and write them back', async () => {
+            await ioredisClient.set('test:schema:legacy', JSON.stringify({ name: 'Ann' }), 'EX', 1200);
+            const store = createSchemaStore();
+            const migrate = vi.spyOn(migrations, 0);
+
+            const data = await runWithContainer(() => store.get('legacy'), createContainer());
+            expect(data).toEqual({ name: 'Ann', displayName: 'Ann', tags: [] });
+            expect(await ioredisClient.get('test:schema:legacy')).toBe('$ver:2${"name":"Ann","displayName":"Ann","tags":[]}');
+            expect(await ioredisClient.ttl('test:schema:legacy')).toBeLessThanOrEqual(1200);
+            expect(await ioredisClient.ttl('test:schema:legacy')).toBeGreaterThan(1100);
+
+            await runWithContainer(() => store.get('legacy'), createContainer());
+            expect(migrate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should drop removed fields when migrating hash sessions', async () => {
+            await ioredisClient.hset('test:schema:legacy', { name: '"Ann"', legacy: '"x"' });
+            const store = createSchemaStore({
+                storage: 'hash',
+                schema: { version: 1, migrations: { 0: ({ legacy, ...rest }: any) => rest } },
+            });
+
+            expect(await runWithContainer(() => store.get('legacy'), createContainer())).toEqual({ name: 'Ann' });
+            const fields = await ioredisClient.hgetall('test:schema:legacy');
+            expect(fields.legacy).toBeUndefined();
+            expect(JSON.parse(fields.$meta).version).toBe(1);
+        });
+
+        it.each([
+            ['miss', 1],
+            ['destroy', 0],
+        ] as const)('should treat invalid data as missing with onInvalid %s', async (onInvalid, remaining) => {
+            await ioredisClient.set('test:schema:invalid', '$ver:2${"nickname":"Ann"}');
+            const store = createSchemaStore({ schema: { version: 2, validate, onInvalid } });
+
+            expect(await runWithContainer(() => store.get('invalid'), createContainer())).toBeNull();
+            expect(await ioredisClient.exists('test:schema:invalid')).toBe(remaining);
+        });
+
+        it('should surface invalid data through onError when onInvalid is throw', async () => {
+            await ioredisClient.set('test:schema:invalid', '$ver:2${"nickname":"Ann"}');
+            const store = createSchemaStore({ onError: 'throw', schema: { version: 2, validate, onInvalid: 'throw' } });
+
+            const error = await runWithContainer(() => store.get('invalid'), createContainer()).catch((error) => error);
+            expect(error).toBeInstanceOf(SessionValidationError);
+            expect(error).toBeInstanceOf(SessionDecodeError);
+            expect(error.path).toEqual(['name']);
+            expect(error.version).toBe(2);
+        });
+
+        it('should return upgraded data from admin reads without writing it back', async () => {
+            await ioredisClient.set('test:schema:legacy', JSON.stringify({ name: 'Ann' }));
+            await ioredisClient.set('test:schema:invalid', JSON.stringify({ nickname: 'Bob' }));
+            const store = createSchemaStore();
+
+            expect(await store.listSessions()).toEqual([
+                { sessionId: 'legacy', data: { name: 'Ann', displayName: 'Ann', tags: [] }, ttl: false },
+            ]);
+            expect(await store.getSessionById('invalid')).toBeNull();
+            expect(await ioredisClient.get('test:schema:legacy')).toBe('{"name":"Ann"}');
+        });
+    });
+
+    describe('Session Migration', () => {
+        const seed = async (count: number) => {
+            for (let i = 0; i < count; i++) {
+                await ioredisClient.set(`test:migrate:s${i}`, JSON.stringify({ n: i }), 'EX', 600);
+            }
+        };
+
+        const targetKeys = async () => (await ioredisClient.keys('test:migrated:*')).sort();
+
+        it('should copy sessions to the target prefix with their remaining TTL', async () => {
+            await seed(3);
+            await ioredisClient.set('test:migrate:forever', '{}');
+            await ioredisClient.sadd('test:migrate-user:1', 's0');
+
+            const result = await migrateSessions(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+            });
+
+            expect(result).toEqual({
+                cursor: 'done', scanned: 4, migrated: 4, skipped: 0, expired: 0, invalid: 0, indexes: 1,
+            });
+            expect(await targetKeys()).toEqual([
+                'test:migrated:forever',
+                'test:migrated:s0',
+                'test:migrated:s1',
+                'test:migrated:s2',
+            ]);
+            expect(await ioredisClient.get('test:migrated:s1')).toBe('{"n":1}');
+            expect(await ioredisClient.ttl('test:migrated:s1')).toBeGreaterThan(590);
+            expect(await ioredisClient.ttl('test:migrated:forever')).toBe(-1);
+            expect(await ioredisClient.smembers('test:migrated-user:1')).toEqual(['s0']);
+        });
+
+        it('should copy hash sessions field by field', async () => {
+            await ioredisClient.hset('test:migrate:h1', { $meta: '{"createdAt":1}', name: '"Ann"' });
+            await ioredisClient.expire('test:migrate:h1', 600);
+
+            const result = await migrateSessions(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+            });
+
+            expect(result.migrated).toBe(1);
+            expect(await ioredisClient.hgetall('test:migrated:h1')).toEqual({ $meta: '{"createdAt":1}', name: '"Ann"' });
+            expect(await ioredisClient.ttl('test:migrated:h1')).toBeGreaterThan(590);
+        });
+
+        it('should re-encode sessions with the codecs of the source and target stores', async () => {
+            const sourceStore = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:migrate',
+                ttl: 3600,
+                getUserId: (data) => data.userId,
+            });
+            const targetStore = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:migrated',
+                ttl: 3600,
+                storage: 'hash',
+                getUserId: (data) => data.userId,
+            });
+            const userData = createMockUserData();
+            const sessionId = await runWithContainer(async () => {
+                await sourceStore.create(userData);
+                return sessionMetaDataCtx.get()!.sessionId;
+            }, createContainer());
+            await ioredisClient.set('test:migrate:broken', 'not json');
+
+            const result = await migrateSessions<UserData>(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+                sourceCodec: sourceStore.codec,
+                targetCodec: targetStore.codec,
+                transformData: (data) => ({ ...data, role: 'admin' }),
+            });
+
+            expect(result).toEqual(expect.objectContaining({ migrated: 1, invalid: 1, indexes: 1 }));
+            expect(await ioredisClient.type(`test:migrated:${sessionId}`)).toBe('hash');
+            expect(await targetStore.getSessionById(sessionId)).toEqual(
+                expect.objectContaining({ data: { ...userData, role: 'admin' } })
+            );
+            expect(await runWithContainer(() => targetStore.listUserSessions(userData.userId), createContainer()))
+                .toEqual([sessionId]);
+        });
+
+        it('should require sourceCodec to decode sessions', async () => {
+            await expect(migrateSessions(ioredisClient, ioredisClient, {
+                transformData: (data) => data,
+            })).rejects.toThrow('require sourceCodec');
+        });
+
+        it('should transform payloads and leave out sessions mapped to null', async () => {
+            await seed(3);
+            const result = await migrateSessions(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+                transform: (payload, sessionId) => sessionId === 's1' ? null : `v2:${payload}`,
+            });
+
+            expect(result.migrated).toBe(2);
+            expect(result.skipped).toBe(1);
+            expect(await targetKeys()).toEqual(['test:migrated:s0', 'test:migrated:s2']);
+            expect(await ioredisClient.get('test:migrated:s2')).toBe('v2:{"n":2}');
+        });
+
+        it('should not write anything in a dry run', async () => {
+            await seed(3);
+            const result = await migrateSessions(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+                dryRun: true,
+            });
+
+            expect(result.migrated).toBe(3);
+            expect(await targetKeys()).toEqual([]);
+        });
+
+        it('should report progress per batch and resume from the last SCAN cursor', async () => {
+            await seed(5);
+            const reports: string[] = [];
+            const interrupted = await migrateSessions(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+                batchSize: 2,
+                onProgress: (progress) => {
+                    reports.push(progress.cursor);
+                    throw new Error('interrupted');
+                },
+            }).catch((error) => error);
+            expect(interrupted.message).toBe('interrupted');
+            expect(reports).toEqual([expect.stringMatching(/^sessions:[1-9]/)]);
+            const copied = (await targetKeys()).length;
+            expect(copied).toBeGreaterThan(0);
+
+            const scanSpy = vi.spyOn(ioredisClient, 'scan');
+            const result = await migrateSessions(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+                batchSize: 2,
+                cursor: reports[0],
+                onProgress: (progress) => {
+                    reports.push(progress.cursor);
+                },
+            });
+
+            expect(scanSpy.mock.calls[0][0]).toBe(reports[0].slice('sessions:'.length));
+            expect(reports[reports.length - 1]).toBe('done');
+            expect(result.migrated).toBe(5 - copied);
+            expect(await targetKeys()).toHaveLength(5);
+            scanSpy.mockRestore();
+        });
+
+        it('should return at once when resumed from a finished cursor', async () => {
+            await seed(1);
+            const result = await migrateSessions(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+                cursor: 'done',
+            });
+
+            expect(result.scanned).toBe(0);
+            expect(await targetKeys()).toEqual([]);
+        });
+
+        it('should wait between batches when throttled', async () => {
+            await seed(3);
+            const start = Date.now();
+            await migrateSessions(ioredisClient, ioredisClient, {
+                prefix: 'test:migrate',
+                targetPrefix: 'test:migrated',
+                batchSize: 1,
+                throttle: 30,
+            });
+
+            expect(Date.now() - start).toBeGreaterThanOrEqual(55);
+        });
+    });
+
+    describe('Bulk Purge', () => {
+        let store: RedisSessionStore<UserData>;
+
+        const createSession = (userData: UserData) => runWithContainer(async () => {
+            await store.create(userData);
+            return sessionMetaDataCtx.get()!.sessionId;
+        }, createContainer());
+
+        const seedSessions = async () => {
+            const admin = await createSession({ ...createMockUserData(), userId: 'u1', role: 'admin' });
+            const users = [
+                await createSession({ ...createMockUserData(), userId: 'u1' }),
+                await createSession({ ...createMockUserData(), userId: 'u2' }),
+                await createSession({ ...createMockUserData(), userId: 'u2' }),
+            ];
+            return { admin, users };
+        };
+
+        beforeEach(() => {
+            store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:purge',
+                ttl: 3600,
+                getUserId: (data) => data.userId,
+            });
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('should delete matching sessions and report the outcome', async () => {
+            const { admin, users } = await seedSessions();
+            const destroyed: string[] = [];
+            store.events.on('destroy', ({ sessionId }) => {
+                destroyed.push(sessionId);
+            });
+
+            const report = await store.purgeSessions((session) => session.data.role === 'user');
+
+            expect(report).toEqual({ scanned: 4, matched: 3, deleted: 3, skipped: 0, dryRun: false });
+            expect((await store.listSessions()).map((record) => record.sessionId)).toEqual([admin]);
+            expect(destroyed.sort()).toEqual([...users].sort());
+            expect(await store.listUserSessions('u1')).toEqual([admin]);
+            expect(await ioredisClient.exists('test:purge-user:u2')).toBe(0);
+        });
+
+        it('should only report matches in a dry run', async () => {
+            await seedSessions();
+            const report = await store.purgeSessions((session) => session.data.userId === 'u2', { dryRun: true });
+
+            expect(report).toEqual({ scanned: 4, matched: 2, deleted: 0, skipped: 0, dryRun: true });
+            expect(await store.countSessions()).toBe(4);
+        });
+
+        it('should delete each batch with a single UNLINK', async () => {
+            await seedSessions();
+            const unlink = vi.spyOn(ioredisClient, 'unlink');
+
+            await store.purgeSessions(() => true, { batchSize: 10 });
+
+            expect(unlink).toHaveBeenCalledTimes(1);
+            expect(unlink.mock.calls[0]).toHaveLength(4);
+            expect(await store.countSessions()).toBe(0);
+        });
+
+        it('should delete with DEL when unlink is off', async () => {
+            await seedSessions();
+            const unlink = vi.spyOn(ioredisClient, 'unlink');
+            const del = vi.spyOn(ioredisClient, 'del');
+
+            await store.purgeSessions(() => true, { unlink: false });
+
+            expect(unlink).not.toHaveBeenCalled();
+            expect(del.mock.calls.filter((keys) => keys.length === 4)).toHaveLength(1);
+            expect(await store.countSessions()).toBe(0);
+        });
+
+        it('should skip and keep sessions that cannot be decoded', async () => {
+            await seedSessions();
+            await ioredisClient.set('test:purge:broken', '{not json');
+
+            const report = await store.purgeSessions(() => true);
+
+            expect(report).toMatchObject({ scanned: 5, matched: 4, deleted: 4, skipped: 1 });
+            expect(await ioredisClient.exists('test:purge:broken')).toBe(1);
+        });
+
+        it('should pass the remaining TTL and creation time to the predicate', async () => {
+            store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:purge',
+                ttl: 3600,
+                absoluteTtl: 7200,
+            });
+            const before = Date.now();
+            await seedSessions();
+            const predicate = vi.fn(() => false);
+
+            await store.purgeSessions(predicate);
+
+            expect(predicate).toHaveBeenCalledTimes(4);
+            const [candidate] = predicate.mock.calls[0] as unknown as [{ ttl: number; createdAt: number }];
+            expect(candidate.ttl).toBeGreaterThan(3500);
+            expect(candidate.createdAt).toBeGreaterThanOrEqual(before);
+        });
+
+        it('should leave createdAt undefined for sessions stored without a creation time', async () => {
+            await ioredisClient.set('test:purge:legacy', JSON.stringify(createMockUserData()), 'EX', 600);
+            store = createRedisSessionStore<UserData>(ioredisClient, {
+                prefix: 'test:purge',
+                ttl: 3600,
+                absoluteTtl: 7200,
+            });
+            const cutoff = Date.now();
+            const predicate = vi.fn((session: { createdAt?: number }) => (session.createdAt ?? 0) < cutoff);
+
+            const report = await store.purgeSessions(predicate);
+
+            expect(predicate.mock.calls[0][0].createdAt).toBeUndefined();
+            expect(report).toMatchObject({ scanned: 1, matched: 1, deleted: 1 });
+            expect(await ioredisClient.exists('test:purge:legacy')).toBe(0);
+        });
+
+        it('should clear the current request context when its session is purged', async () => {
+            const { users } = await seedSessions();
+            await runWithContainer(async () => {
+                await store.get(users[0]);
+                await store.purgeSessions((session) => session.sessionId === users[0]);
+                expect(sessionMetaDataCtx.get()).toBeUndefined();
+            }, createContainer());
+        });
+    });
+
     /**
      * Edge Cases and Error Handling
      */